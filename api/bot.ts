@@ -1,8 +1,14 @@
 /**
  * Telegram webhook handler for Vercel (Node runtime).
- * - Webhook: POST /api/bot
+ * - Webhook: POST /api/bot (register it with /api/setup)
+ * - processUpdate(update) is the same dispatcher for the getUpdates loop (server.ts)
+ * - Rejects requests without the X-Telegram-Bot-Api-Secret-Token header when TELEGRAM_WEBHOOK_SECRET is set
  * - Uses Telegram Bot API (webhook) and Google Sheets API v4
- * - Append-only, static menu, idempotent
+ * - Orders go to the OrderStore as one row per cart line; rows are never deleted, only
+ *   marked Voided or moved through the Queued → Collected statuses
+ * - Menu and modifiers come from the sheet (cached, /reloadmenu), with /soldout and /restock
+ *   writing the Available column; the built-in menu is the fallback
+ * - Idempotent per update_id; multi-step flows keep their state in the SessionStore
  *
  * Environment variables:
  * - BOT_TOKEN
@@ -10,6 +16,14 @@
  * - GOOGLE_SERVICE_ACCOUNT_EMAIL
  * - GOOGLE_PRIVATE_KEY (handle \n correctly)
  * - ADMIN_CHAT_ID (optional)
+ * - OWNER_IDS (comma-separated user ids; other staff are managed with /grant and /revoke)
+ * - TELEGRAM_WEBHOOK_SECRET (optional, recommended)
+ * - ORDER_STORE (optional: "sheets" default, or "file" with ORDER_STORE_FILE)
+ * - SESSION_STORE / REDIS_URL (optional: where multi-step flow state lives)
+ * - PAY_URL (optional), BALANCE_REMINDER_THRESHOLD (optional, default 20)
+ * - STAFF_CHAT_ID (optional): where customers' /order requests go (default: ADMIN_CHAT_ID)
+ * - STAMP_CARD_SIZE (optional, default 10; 0 turns stamp cards off)
+ * - SHOP_TIMEZONE / SHOP_CURRENCY / SHOP_LOCALE / SHOP_LANGUAGE (optional; a Settings tab overrides them)
  *
  * Minimal deps expected:
  *   googleapis, google-auth-library
@@ -24,78 +38,202 @@ import {
   tgNotifyAdmin,
   tgSetMyCommands,
   tgDeleteMyCommands,
+  verifyWebhookSecret,
+  escapeHtml,
 } from "../lib/telegram";
+import { DEFAULT_COMMANDS, commandsForRole } from "../lib/commands";
 import {
-  getSheetsAuth,
-  ensureSheet,
-  appendOrder,
-  type OrderRow,
-  getSheetId,
-  deleteRow,
-} from "../lib/sheets";
+  roleOf,
+  hasRole,
+  isRole,
+  grantRole,
+  revokeRole,
+  type Role,
+} from "../lib/staff";
+import { type OrderRow, type OrderStatus } from "../lib/sheets";
+import { getOrderStore, newOrderId, isVoided } from "../lib/orders";
 import {
   DRINKS,
-  OAT_UPCHARGE,
-  BYOC_DISCOUNT,
-  fmtMoney,
+  drinkById,
   buildMainMenu,
-  buildOatChoice,
-  buildByocChoice,
+  buildCategoryMenu,
+  categoryBySlug,
+  buildModifierChoice,
+  modifierGroupsFor,
+  parsePicks,
+  modifierVersion,
+  resolveModifiers,
+  type SelectedModifier,
   listText,
-  ensureMenuLoadedOnce,
-  buildConfirmKeyboard,
+  ensureMenuFresh,
+  reloadMenu,
+  menuReportText,
+  findDrinks,
+  setDrinkAvailable,
+  buildCartKeyboard,
+  buildHistoryKeyboard,
+  buildTicketKeyboard,
+  buildStatusKeyboard,
+  buildLanguageKeyboard,
+  statusStep,
+  statusName,
+  statusLabel,
+  drinkName,
+  groupPrompt,
+  fmtMoney,
 } from "../lib/menu";
+import {
+  type Cart,
+  type CartLine,
+  cartText,
+  describeLine,
+  modifiersText,
+  cartLineFromOrder,
+  repriceLine,
+  redeemReward,
+} from "../lib/cart";
+import {
+  loadPromotions,
+  applyPromotions,
+  findPromoCode,
+  normalizePromoCode,
+  promotionLabel,
+  type AppliedPromotion,
+} from "../lib/promotions";
+import {
+  priceLine,
+  priceCart,
+  toCents,
+  fromCents,
+  sumMoney,
+  type CartPrice,
+} from "../lib/pricing";
+import { loadHistory, historyText, refFromKey } from "../lib/history";
+import {
+  consumeStock,
+  restoreStock,
+  stockLineFromCart,
+  lowStockText,
+} from "../lib/inventory";
 import { LRUSet, OnceGuard, keyFromParts } from "../lib/idempotency";
+import { getSessionStore } from "../lib/session";
+import { nowIso } from "../lib/time";
+import { loadSettings } from "../lib/config";
+import {
+  t,
+  tPlain,
+  LANGUAGES,
+  isLang,
+  shopLang,
+  userLang,
+  langOf,
+  setUserLang,
+  type Lang,
+} from "../lib/i18n";
+import { parseReportRange, loadSummary, summaryText } from "../lib/report";
+import {
+  rememberCustomer,
+  findCustomer,
+  normalizeUsername,
+} from "../lib/customers";
+import { getPaymentStore, customerBalance } from "../lib/payments";
+import {
+  STAMP_CARD_SIZE,
+  stampCard,
+  stampCardText,
+  rewardCups,
+} from "../lib/loyalty";
 
 /* =============================
    Config and constants
 ============================= */
 
-const SHEET_ID = (globalThis as any)?.process?.env?.SHEET_ID || "";
 const PAY_URL = (globalThis as any)?.process?.env?.PAY_URL || "";
-const DEFAULT_COMMANDS = [
-  { command: "menu", description: "View menu" },
-  { command: "pay", description: "Pay for drinks" },
-];
-const APPROVED_EXTRA_COMMANDS = [
-  { command: "log", description: "Log an order" },
-  { command: "undo", description: "Undo previous order" },
-];
+const STAFF_CHAT_ID = Number(
+  (globalThis as any)?.process?.env?.STAFF_CHAT_ID ||
+    (globalThis as any)?.process?.env?.ADMIN_CHAT_ID ||
+    0,
+);
+const BALANCE_REMINDER_THRESHOLD = Number(
+  (globalThis as any)?.process?.env?.BALANCE_REMINDER_THRESHOLD || 20,
+);
 let __defaultCommandsSet = false;
 
 const seenUpdateIds = new LRUSet<number>(1000); // dedupe update_id
-const milkPromptOnce = new OnceGuard<string>(1000); // guard to only show oat choices once per message
-const lastRowByChat = new Map<string, number>(); // key: chatId:userId -> last appended row (1-based)
-const lastOrderDetailsByChat = new Map<
-  string,
-  { drinkName: string; oatMilk: boolean; byoc: boolean; qty: number }
->();
-const pendingQtyByMessage = new Map<string, number>();
-const qtyPadByUser = new Map<
-  string,
-  {
-    messageId: number;
-    idx: number;
-    oat: boolean;
-    byoc: boolean;
-    buffer: string;
-    invalidWarnMessageId?: number;
-  }
->();
+const modifierPromptOnce = new OnceGuard<string>(1000); // guard to only show the first modifier prompt once per message
+
+/* =============================
+   Session state (shared across instances via SessionStore)
+============================= */
+
+const QTY_PAD_TTL_MS = 10 * 60 * 1000;
+const CART_TTL_MS = 30 * 60 * 1000;
+const LAST_ORDER_TTL_MS = 24 * 60 * 60 * 1000;
+const REMINDER_TTL_MS = 24 * 60 * 60 * 1000;
+const TICKET_TTL_MS = 12 * 60 * 60 * 1000;
+const HISTORY_DEFAULT = 5;
+const HISTORY_MAX = 20;
+
+// key: pad:chatId:userId -> quantity prompt awaiting a text reply
+type QtyPad = {
+  messageId: number;
+  drinkId: string;
+  mods: SelectedModifier[];
+  buffer: string;
+  invalidWarnMessageId?: number;
+};
+
+// key: cart:chatId:userId -> lines added so far, see lib/cart.ts
+
+// key: custpad:chatId:userId -> cart message awaiting a customer @username reply
+type CustomerPad = { messageId: number };
+
+// key: codepad:chatId:userId -> cart message awaiting a promo code reply
+type CodePad = { messageId: number };
+
+// key: last:chatId:userId -> last confirmed cart, for /undo
+type LastOrder = {
+  orderId: string;
+  callbackId: string; // locates the rows if they were saved without an OrderId
+  lines: Array<{ name: string; mods: SelectedModifier[]; qty: number }>;
+};
+
+// key: ticket:<ticketId> -> a customer's /order waiting for a barista to accept or reject
+// key: ticket-open:<userId> -> their open ticketId (one request at a time)
+type PendingOrder = {
+  ticketId: string; // becomes the OrderId once accepted
+  customer: TgUser;
+  chatId: number; // the customer's private chat
+  lines: CartLine[];
+  promo?: AppliedPromotion | null; // as shown to the customer when they sent it
+  lang?: Lang; // the customer's, for the accepted / rejected message
+};
+
+const padKeyFor = (chatId: number, userId: number) =>
+  keyFromParts("pad", chatId, userId);
+const cartKeyFor = (chatId: number, userId: number) =>
+  keyFromParts("cart", chatId, userId);
+const customerPadKeyFor = (chatId: number, userId: number) =>
+  keyFromParts("custpad", chatId, userId);
+const codePadKeyFor = (chatId: number, userId: number) =>
+  keyFromParts("codepad", chatId, userId);
+const lastOrderKeyFor = (chatId: number, userId: number) =>
+  keyFromParts("last", chatId, userId);
 
 /* =============================
    Telegram payload types (minimal)
 ============================= */
 
-type TgUser = {
+export type TgUser = {
   id: number;
   is_bot?: boolean;
   first_name?: string;
   last_name?: string;
   username?: string;
+  language_code?: string;
 };
 
-type TgChat = {
+export type TgChat = {
   id: number;
   type: string;
   title?: string;
@@ -104,22 +242,23 @@ type TgChat = {
   last_name?: string;
 };
 
-type TgMessage = {
+export type TgMessage = {
   message_id: number;
   date: number;
   chat: TgChat;
   from?: TgUser;
   text?: string;
+  reply_to_message?: TgMessage;
 };
 
-type TgCallbackQuery = {
+export type TgCallbackQuery = {
   id: string;
   from: TgUser;
   message?: TgMessage;
   data?: string;
 };
 
-type TgUpdate = {
+export type TgUpdate = {
   update_id: number;
   message?: TgMessage;
   callback_query?: TgCallbackQuery;
@@ -129,19 +268,6 @@ type TgUpdate = {
    Utils
 ============================= */
 
-const nowIso = () => {
-  // Return Singapore time (UTC+08:00) in ISO-like format without milliseconds
-  const now = new Date();
-  const sgt = new Date(now.getTime() + 8 * 60 * 60 * 1000); // shift to UTC+8
-  const y = sgt.getUTCFullYear();
-  const m = String(sgt.getUTCMonth() + 1).padStart(2, "0");
-  const d = String(sgt.getUTCDate()).padStart(2, "0");
-  const hh = String(sgt.getUTCHours()).padStart(2, "0");
-  const mm = String(sgt.getUTCMinutes()).padStart(2, "0");
-  const ss = String(sgt.getUTCSeconds()).padStart(2, "0");
-  return `${y}-${m}-${d}T${hh}:${mm}:${ss}+08:00`;
-};
-
 async function safeTg<T>(fn: () => Promise<T>): Promise<T | undefined> {
   try {
     return await fn();
@@ -164,40 +290,61 @@ export default async function handler(req: any, res: any) {
       return;
     }
 
-    const update = await parseUpdate(req);
-    if (!update || typeof update.update_id !== "number") {
-      res.statusCode = 200;
-      res.end("OK");
+    // Only Telegram knows the secret set via setWebhook; anything else is forged
+    if (!verifyWebhookSecret(req.headers || {})) {
+      res.statusCode = 401;
+      res.setHeader("Content-Type", "application/json; charset=utf-8");
+      res.end(JSON.stringify({ ok: false, error: "unauthorized" }));
       return;
     }
 
-    // Idempotency by update_id
-    if (seenUpdateIds.has(update.update_id)) {
-      res.statusCode = 200;
-      res.end("OK");
-      return;
+    const update = await parseUpdate(req);
+    if (update && typeof update.update_id === "number") {
+      await processUpdate(update);
     }
+
+    res.statusCode = 200;
+    res.end("OK");
+  } catch (err: any) {
+    await reportError(err);
+    // Always 200 to stop Telegram retries
+    res.statusCode = 200;
+    res.end("OK");
+  }
+}
+
+/**
+ * Handles one update, from the webhook above or the getUpdates loop (server.ts).
+ * Never throws: errors are logged and sent to ADMIN_CHAT_ID, so the update counts as done.
+ */
+export async function processUpdate(update: TgUpdate): Promise<void> {
+  try {
+    // Idempotency by update_id
+    if (seenUpdateIds.has(update.update_id)) return;
     seenUpdateIds.add(update.update_id);
 
+    // Timezone and currency for everything this update replies with
+    await loadSettings();
+
     if (update.message) {
       await handleMessage(update.message);
     } else if (update.callback_query) {
       await handleCallback(update.callback_query);
     }
-
-    res.statusCode = 200;
-    res.end("OK");
   } catch (err: any) {
-    console.error(`bot.ts error: ${err?.message || String(err)}`);
-    try {
-      await tgNotifyAdmin(`⚠ Bot error: ${err?.message || String(err)}`);
-    } catch {}
-    // Always 200 to stop Telegram retries
-    res.statusCode = 200;
-    res.end("OK");
+    await reportError(err);
   }
 }
 
+async function reportError(err: any): Promise<void> {
+  console.error(`bot.ts error: ${err?.message || String(err)}`);
+  try {
+    await tgNotifyAdmin(
+      `⚠ Bot error: ${escapeHtml(err?.message || String(err))}`,
+    );
+  } catch {}
+}
+
 /* =============================
    Handlers
 ============================= */
@@ -206,51 +353,49 @@ async function handleMessage(msg: TgMessage) {
   const chatId = msg.chat.id;
   const text = (msg.text || "").trim();
 
+  // Keep the @username -> user id directory fresh for customer tagging
+  if (msg.from) {
+    try {
+      await rememberCustomer(msg.from);
+    } catch (e: any) {
+      console.error(`customer directory error: ${e?.message || String(e)}`);
+    }
+  }
+
   // Ensure default commands for everyone once
   if (!__defaultCommandsSet) {
     await safeTg(() => tgSetMyCommands(DEFAULT_COMMANDS, { type: "default" }));
     __defaultCommandsSet = true;
   }
 
-  // Scope commands based on chat type:
+  // Scope commands based on chat type and the sender's role:
   // - Private chats: use chat-level scope so commands show reliably
-  // - Groups/Supergroups: use per-member scope so only approved users see extras
-  const __allowed = (
-    ((globalThis as any)?.process?.env?.APPROVED_USERNAMES as string) || ""
-  )
-    .split(",")
-    .map((u: string) => u.trim().replace(/^@/, "").toLowerCase())
-    .filter(Boolean);
-  const __uname = ((msg.from?.username || "") as string).toLowerCase();
+  // - Groups/Supergroups: use per-member scope so only staff see extras
+  const role = await staffRoleOf(msg.from);
   const isPrivate = (msg.chat?.type || "").toLowerCase() === "private";
+  const lang = await replyLang(msg.chat, msg.from);
 
   if (isPrivate) {
     // In 1:1 chats, set chat-level commands (the chat is the user)
-    if (__uname && __allowed.includes(__uname)) {
-      await safeTg(() =>
-        tgSetMyCommands([...APPROVED_EXTRA_COMMANDS, ...DEFAULT_COMMANDS], {
-          type: "chat",
-          chat_id: chatId,
-        }),
-      );
-    } else {
-      await safeTg(() =>
-        tgSetMyCommands(DEFAULT_COMMANDS, { type: "chat", chat_id: chatId }),
-      );
-    }
-  } else if (msg.from?.id && __uname) {
+    await safeTg(() =>
+      tgSetMyCommands(commandsForRole(role), {
+        type: "chat",
+        chat_id: chatId,
+      }),
+    );
+  } else if (msg.from?.id) {
     // In groups/supergroups, use chat_member scope for per-user visibility
-    if (__allowed.includes(__uname)) {
+    if (role) {
       await safeTg(() =>
-        tgSetMyCommands([...APPROVED_EXTRA_COMMANDS, ...DEFAULT_COMMANDS], {
+        tgSetMyCommands(commandsForRole(role), {
           type: "chat_member",
           chat_id: chatId,
           user_id: msg.from!.id,
         }),
       );
-      // Fallback: some clients ignore chat_member scoped commands. Ensure group admins see commands.
+      // Fallback: some clients ignore chat_member scoped commands. Ensure group admins see the ordering commands.
       await safeTg(() =>
-        tgSetMyCommands([...APPROVED_EXTRA_COMMANDS, ...DEFAULT_COMMANDS], {
+        tgSetMyCommands(commandsForRole("barista"), {
           type: "chat_administrators",
           chat_id: chatId,
         }),
@@ -267,8 +412,9 @@ async function handleMessage(msg: TgMessage) {
   }
 
   // If a numeric keypad is active for this user, handle digit/Clear/Done
-  const padKey = keyFromParts(chatId, msg.from?.id ?? 0);
-  const pad = qtyPadByUser.get(padKey);
+  const sessions = getSessionStore();
+  const padKey = padKeyFor(chatId, msg.from?.id ?? 0);
+  const pad = await sessions.get<QtyPad>(padKey);
   if (pad) {
     const rawQty = (msg.text || "").trim();
     await safeTg(() => tgDeleteMessage(chatId, msg.message_id));
@@ -281,16 +427,14 @@ async function handleMessage(msg: TgMessage) {
         );
       }
       const warn = await safeTg(() =>
-        tgSendMessage(
-          chatId,
-          "Invalid. Please respond with a number between 1 - 10.",
-        ),
+        tgSendMessage(chatId, t(lang, "qtyInvalid")),
       );
       if (warn && typeof (warn as any).message_id === "number") {
-        qtyPadByUser.set(padKey, {
-          ...pad,
-          invalidWarnMessageId: (warn as any).message_id,
-        });
+        await sessions.set<QtyPad>(
+          padKey,
+          { ...pad, invalidWarnMessageId: (warn as any).message_id },
+          QTY_PAD_TTL_MS,
+        );
       }
       return;
     }
@@ -300,474 +444,1909 @@ async function handleMessage(msg: TgMessage) {
       );
     }
     const qty = n;
-    const drink = DRINKS[pad.idx as number];
+    const drink = drinkById(pad.drinkId);
     if (!drink) {
-      qtyPadByUser.delete(padKey);
+      await sessions.delete(padKey);
       return;
     }
-    const qtyKey = keyFromParts(
-      chatId,
-      pad.messageId,
-      pad.idx,
-      pad.oat,
-      pad.byoc,
-    );
-    pendingQtyByMessage.set(qtyKey, qty);
 
-    const base = drink.price;
-    const up = pad.oat ? OAT_UPCHARGE : 0;
-    const disc = pad.byoc ? BYOC_DISCOUNT : 0;
-    const unit = base + up - disc;
-    const total = unit * qty;
+    // Add the line to this user's cart and show the running total
+    const cartKey = cartKeyFor(chatId, msg.from?.id ?? 0);
+    const existing = await sessions.get<Cart>(cartKey);
+    const cart: Cart =
+      existing?.messageId === pad.messageId
+        ? existing
+        : {
+            messageId: pad.messageId,
+            lines: [],
+            selfOrder: !hasRole(role, "barista") || undefined,
+          };
+    cart.lines.push({
+      drinkId: drink.id,
+      name: drink.name,
+      base: drink.price,
+      mods: pad.mods,
+      qty,
+    });
+    // Allow the modifier prompt again if the same drink is added to the cart twice
+    modifierPromptOnce.delete(keyFromParts(chatId, pad.messageId, pad.drinkId));
+
+    await showCartOrMenu(chatId, pad.messageId, cart, lang, cartKey);
+    await sessions.delete(padKey);
+    return;
+  }
 
-    const confirm = buildConfirmKeyboard(pad.idx, pad.oat, pad.byoc, qty);
-    const confirmText =
-      pad.oat && pad.byoc
-        ? `Confirm: ${drink.name} with oat milk (BYOC) — ${fmtMoney(base)} + ${fmtMoney(OAT_UPCHARGE)} − ${fmtMoney(BYOC_DISCOUNT)} = ${fmtMoney(unit)}${qty > 1 ? ` × ${qty} = ${fmtMoney(total)}` : ""}`
-        : pad.oat && !pad.byoc
-          ? `Confirm: ${drink.name} with oat milk — ${fmtMoney(base)} + ${fmtMoney(OAT_UPCHARGE)} = ${fmtMoney(unit)}${qty > 1 ? ` × ${qty} = ${fmtMoney(total)}` : ""}`
-          : !pad.oat && pad.byoc
-            ? `Confirm: ${drink.name} (BYOC) — ${fmtMoney(base)} − ${fmtMoney(BYOC_DISCOUNT)} = ${fmtMoney(unit)}${qty > 1 ? ` × ${qty} = ${fmtMoney(total)}` : ""}`
-            : `Confirm: ${drink.name} — ${fmtMoney(unit)}${qty > 1 ? ` × ${qty} = ${fmtMoney(total)}` : ""}`;
+  // If the cart is waiting for a customer @username, take this message as the answer
+  const customerPadKey = customerPadKeyFor(chatId, msg.from?.id ?? 0);
+  const customerPad = await sessions.get<CustomerPad>(customerPadKey);
+  if (customerPad && !text.startsWith("/")) {
+    await safeTg(() => tgDeleteMessage(chatId, msg.message_id));
+    const cartKey = cartKeyFor(chatId, msg.from?.id ?? 0);
+    const cart = (await sessions.get<Cart>(cartKey)) || {
+      messageId: customerPad.messageId,
+      lines: [],
+    };
+    if (cart.messageId !== customerPad.messageId) {
+      await sessions.delete(customerPadKey);
+      return;
+    }
+    const username = text === "-" ? "" : normalizeUsername(text);
+    if (text !== "-" && !username) {
+      await safeTg(() =>
+        tgEditMessageText(
+          chatId,
+          customerPad.messageId,
+          t(lang, "customerInvalid"),
+        ),
+      );
+      return;
+    }
+    const known = username ? await findCustomer(username) : null;
+    cart.customer = username || undefined;
+    cart.customerId = known?.userId || undefined;
+    await sessions.delete(customerPadKey);
+    await showCartOrMenu(chatId, customerPad.messageId, cart, lang, cartKey);
+    return;
+  }
 
-    await safeTg(() => tgEditMessageText(chatId, pad.messageId, confirmText));
-    await safeTg(() => tgEditReplyMarkup(chatId, pad.messageId, confirm));
-    qtyPadByUser.delete(padKey);
+  // If the cart is waiting for a promo code, take this message as the answer
+  const codePadKey = codePadKeyFor(chatId, msg.from?.id ?? 0);
+  const codePad = await sessions.get<CodePad>(codePadKey);
+  if (codePad && !text.startsWith("/")) {
+    await safeTg(() => tgDeleteMessage(chatId, msg.message_id));
+    const cartKey = cartKeyFor(chatId, msg.from?.id ?? 0);
+    const cart = await sessions.get<Cart>(cartKey);
+    if (!cart || cart.messageId !== codePad.messageId) {
+      await sessions.delete(codePadKey);
+      return;
+    }
+    const code = text === "-" ? "" : normalizePromoCode(text);
+    if (code) {
+      let valid = false;
+      try {
+        valid = !!findPromoCode(code, await loadPromotions());
+      } catch (e: any) {
+        console.error(`promotions error: ${e?.message || String(e)}`);
+      }
+      if (!valid) {
+        await safeTg(() =>
+          tgEditMessageText(
+            chatId,
+            codePad.messageId,
+            t(lang, "promoInvalid", { code }),
+          ),
+        );
+        return;
+      }
+    }
+    cart.promoCode = code || undefined;
+    await sessions.delete(codePadKey);
+    await showCartOrMenu(chatId, codePad.messageId, cart, lang, cartKey);
     return;
   }
 
+  const [cmd, ...args] = text.split(/\s+/);
+  const command = cmd.replace(/@\w+$/, "");
+
   if (text === "/start") {
-    await safeTg(() =>
-      tgSendMessage(chatId, "Use /menu to view our drinks menu!"),
+    await safeTg(() => tgSendMessage(chatId, t(lang, "start")));
+    return;
+  }
+
+  if (command === "/log") {
+    if (
+      !(await requireRole(msg.from, "barista", () => denyMessage(chatId, lang)))
+    )
+      return;
+
+    // A new /log starts a fresh cart, optionally billed to a customer: /log @alice
+    const cartKey = cartKeyFor(chatId, msg.from?.id ?? 0);
+    await sessions.delete(cartKey);
+    const customer = args[0] ? normalizeUsername(args[0]) : "";
+    if (args[0] && !customer) {
+      await safeTg(() => tgSendMessage(chatId, t(lang, "logUsage")));
+      return;
+    }
+    await ensureMenuFresh();
+    const known = customer ? await findCustomer(customer) : null;
+    const cart: Cart = {
+      messageId: 0,
+      lines: [],
+      customer: customer || undefined,
+      customerId: known?.userId || undefined,
+    };
+    const heading = customer
+      ? t(lang, "orderFor", { customer }) +
+        freeDrinksNote(cart, await freeDrinksLeft(cart), lang)
+      : t(lang, "chooseDrink");
+    const sent = await safeTg(() =>
+      tgSendMessage(chatId, heading, buildMainMenu(lang)),
     );
+    if (customer && sent && typeof (sent as any).message_id === "number") {
+      cart.messageId = (sent as any).message_id;
+      await sessions.set<Cart>(cartKey, cart, CART_TTL_MS);
+    }
+    return;
+  }
+
+  if (text === "/menu") {
+    await ensureMenuFresh();
+    await safeTg(() => tgSendMessage(chatId, listText(lang)));
+    return;
+  }
+
+  if (command === "/reloadmenu") {
+    if (
+      !(await requireRole(msg.from, "owner", () => denyMessage(chatId, lang)))
+    )
+      return;
+
+    const report = await reloadMenu();
+    await safeTg(() => tgSendMessage(chatId, menuReportText(report)));
     return;
   }
 
-  if (text === "/log") {
-    const __allowed = (
-      ((globalThis as any)?.process?.env?.APPROVED_USERNAMES as string) || ""
+  if (command === "/soldout" || command === "/restock") {
+    if (
+      !(await requireRole(msg.from, "barista", () => denyMessage(chatId, lang)))
     )
-      .split(",")
-      .map((u: string) => u.trim().replace(/^@/, "").toLowerCase())
-      .filter(Boolean);
-    const __uname = ((msg.from?.username || "") as string).toLowerCase();
-    if (!__uname || !__allowed.includes(__uname)) {
+      return;
+
+    const available = command === "/restock";
+    await ensureMenuFresh();
+    const query = args.join(" ");
+    if (!query) {
+      const soldOut = DRINKS.filter((d) => !d.available).map((d) => d.name);
+      const usage = t(lang, "availabilityUsage", { command });
       await safeTg(() =>
         tgSendMessage(
           chatId,
-          "Not authorized. Use /menu to view our drinks menu!",
+          soldOut.length
+            ? `${t(lang, "soldOutList", { drinks: soldOut.join(", ") })}\n${usage}`
+            : `${t(lang, "nothingSoldOut")}\n${usage}`,
         ),
       );
       return;
     }
-
-    await ensureMenuLoadedOnce();
-    const menu = buildMainMenu();
-    await safeTg(() => tgSendMessage(chatId, "Choose a drink:", menu));
+    const matches = findDrinks(query);
+    if (matches.length !== 1) {
+      await safeTg(() =>
+        tgSendMessage(
+          chatId,
+          matches.length
+            ? t(lang, "whichOne", {
+                drinks: matches.map((d) => d.name).join(", "),
+              })
+            : t(lang, "noSuchDrink", { query }),
+        ),
+      );
+      return;
+    }
+    const drink = matches[0];
+    if (drink.available === available) {
+      await safeTg(() =>
+        tgSendMessage(
+          chatId,
+          t(lang, available ? "alreadyOnSale" : "alreadySoldOut", {
+            drink: drink.name,
+          }),
+        ),
+      );
+      return;
+    }
+    try {
+      await setDrinkAvailable(drink, available);
+      await safeTg(() =>
+        tgSendMessage(
+          chatId,
+          t(lang, available ? "backOnMenu" : "nowSoldOut", {
+            drink: drink.name,
+          }),
+        ),
+      );
+    } catch (e: any) {
+      console.error(`availability error: ${e?.message || String(e)}`);
+      await safeTg(() => tgSendMessage(chatId, t(lang, "couldntSave")));
+    }
     return;
   }
 
-  if (text === "/menu") {
-    await safeTg(() => tgSendMessage(chatId, listText()));
+  if (command === "/order") {
+    // Customers order in their private chat; a barista accepts it from the staff chat
+    if ((msg.chat?.type || "").toLowerCase() !== "private") {
+      await safeTg(() => tgSendMessage(chatId, t(lang, "orderInPrivate")));
+      return;
+    }
+    if (!STAFF_CHAT_ID) {
+      await safeTg(() => tgSendMessage(chatId, t(lang, "orderingUnavailable")));
+      return;
+    }
+    const cartKey = cartKeyFor(chatId, msg.from?.id ?? 0);
+    await sessions.delete(cartKey);
+    await ensureMenuFresh();
+    const sent = await safeTg(() =>
+      tgSendMessage(chatId, t(lang, "whatWouldYouLike"), buildMainMenu(lang)),
+    );
+    if (sent && typeof (sent as any).message_id === "number") {
+      await sessions.set<Cart>(
+        cartKey,
+        { messageId: (sent as any).message_id, lines: [], selfOrder: true },
+        CART_TTL_MS,
+      );
+    }
     return;
   }
 
   if (text === "/pay") {
+    let owed = "";
+    if (msg.from) {
+      try {
+        const bal = await customerBalance({
+          userId: msg.from.id,
+          username: normalizeUsername(msg.from.username || ""),
+        });
+        if (bal.balance > 0) {
+          owed = `${t(lang, "youOwe", { amount: fmtMoney(bal.balance) })}\n`;
+        }
+      } catch (e: any) {
+        console.error(`balance error: ${e?.message || String(e)}`);
+      }
+    }
     if (!PAY_URL) {
-      await safeTg(() =>
-        tgSendMessage(chatId, "Payment link is not configured."),
-      );
+      await safeTg(() => tgSendMessage(chatId, t(lang, "payNotConfigured")));
       return;
     }
     const payKb = {
-      inline_keyboard: [[{ text: "Pay now", url: PAY_URL }]],
+      inline_keyboard: [[{ text: t(lang, "payNow"), url: PAY_URL }]],
     } as any;
     await safeTg(() =>
-      tgSendMessage(
-        chatId,
-        `Pay for your drinks using the link below:\n${PAY_URL}`,
-        payKb,
-      ),
+      tgSendMessage(chatId, owed + t(lang, "payLink", { url: PAY_URL }), payKb),
     );
     return;
   }
 
   if (text === "/undo") {
-    const __allowed = (
-      ((globalThis as any)?.process?.env?.APPROVED_USERNAMES as string) || ""
+    if (
+      !(await requireRole(msg.from, "barista", () => denyMessage(chatId, lang)))
     )
-      .split(",")
-      .map((u: string) => u.trim().replace(/^@/, "").toLowerCase())
-      .filter(Boolean);
-    const __uname = ((msg.from?.username || "") as string).toLowerCase();
-    if (!__uname || !__allowed.includes(__uname)) {
-      await safeTg(() =>
-        tgSendMessage(
-          chatId,
-          "Not authorized. Use /menu to view our drinks menu!",
-        ),
-      );
       return;
-    }
 
-    const key = keyFromParts(chatId, msg.from?.id ?? 0);
-    const last = lastRowByChat.get(key);
-    if (!last) {
-      await safeTg(() => tgSendMessage(chatId, "No recent order to undo."));
+    const key = lastOrderKeyFor(chatId, msg.from?.id ?? 0);
+    const details = await sessions.get<LastOrder>(key);
+    if (!details) {
+      await safeTg(() => tgSendMessage(chatId, t(lang, "undoNothing")));
       return;
     }
     try {
-      if (!SHEET_ID) throw new Error("SHEET_ID is not set");
-      const auth = await getSheetsAuth();
-      const sheetId = await getSheetId(auth, SHEET_ID, "Orders");
-      if (sheetId == null) throw new Error("Orders sheet not found");
-      await deleteRow(auth, SHEET_ID, sheetId, last);
-      const details = lastOrderDetailsByChat.get(key);
-      lastRowByChat.delete(key);
-      lastOrderDetailsByChat.delete(key);
-      let undoneText: string;
-      if (!details) {
-        undoneText = "Undid your last order.";
-      } else {
-        const qtyLabel =
-          details.qty && details.qty > 1 ? ` × ${details.qty}` : "";
-        if (details.oatMilk && details.byoc) {
-          undoneText = `Undid: ${details.drinkName} with oat milk (BYOC)${qtyLabel}.`;
-        } else if (details.oatMilk) {
-          undoneText = `Undid: ${details.drinkName} with oat milk${qtyLabel}.`;
-        } else if (details.byoc) {
-          undoneText = `Undid: ${details.drinkName} (BYOC)${qtyLabel}.`;
-        } else {
-          undoneText = `Undid: ${details.drinkName}${qtyLabel}.`;
-        }
+      // Rows are found by id now (not by a cached row number) and kept, marked Voided
+      const voided = await getOrderStore().void(
+        { orderId: details.orderId, callbackId: details.callbackId },
+        staffLabel(msg.from),
+      );
+      await sessions.delete(key);
+      await restoreStockFor(voided);
+      if (!voided.length) {
+        await safeTg(() => tgSendMessage(chatId, t(lang, "undoAlreadyVoided")));
+        return;
       }
-      await safeTg(() => tgSendMessage(chatId, undoneText));
+      const undone = details.lines.map(describeLine).join(", ");
+      await safeTg(() =>
+        tgSendMessage(
+          chatId,
+          details.lines.length
+            ? t(lang, "undoDone", { orderId: details.orderId, lines: undone })
+            : t(lang, "undoDoneLast"),
+        ),
+      );
     } catch (e: any) {
       console.error(`undo error: ${e?.message || String(e)}`);
-      await safeTg(() => tgSendMessage(chatId, "⚠ couldn't undo, try again"));
+      await safeTg(() => tgSendMessage(chatId, t(lang, "undoFailed")));
     }
     return;
   }
 
-  // Ignore other messages
-}
-
-async function handleCallback(cb: TgCallbackQuery) {
-  await ensureMenuLoadedOnce();
-  const data = cb.data || "";
-  const msg = cb.message;
-  if (!msg) {
-    await safeTg(() => tgAnswerCallbackQuery(cb.id, ""));
-    return;
-  }
+  if (command === "/history") {
+    if (
+      !(await requireRole(msg.from, "barista", () => denyMessage(chatId, lang)))
+    )
+      return;
 
-  // Only allow approved usernames to interact with ordering callbacks
-  const __allowed = (
-    ((globalThis as any)?.process?.env?.APPROVED_USERNAMES as string) || ""
-  )
-    .split(",")
-    .map((u: string) => u.trim().replace(/^@/, "").toLowerCase())
-    .filter(Boolean);
-  const __caller = ((cb.from?.username || "") as string).toLowerCase();
-  if (!__caller || !__allowed.includes(__caller)) {
-    await safeTg(() => tgAnswerCallbackQuery(cb.id, "Not authorized"));
+    const n = args[0] ? Number(args[0]) : HISTORY_DEFAULT;
+    if (!Number.isInteger(n) || n < 1) {
+      await safeTg(() => tgSendMessage(chatId, t(lang, "historyUsage")));
+      return;
+    }
+    try {
+      const view = await renderHistory(chatId, msg.from!, n, lang);
+      await safeTg(() => tgSendMessage(chatId, view.text, view.keyboard));
+    } catch (e: any) {
+      console.error(`history error: ${e?.message || String(e)}`);
+      await safeTg(() => tgSendMessage(chatId, t(lang, "historyFailed")));
+    }
     return;
   }
 
-  await ensureMenuLoadedOnce();
-  const chatId = msg.chat.id;
-  const messageId = msg.message_id;
+  if (command === "/report") {
+    if (
+      !(await requireRole(msg.from, "viewer", () => denyMessage(chatId, lang)))
+    )
+      return;
 
-  if (data.startsWith("D|")) {
-    const idx = Number(data.split("|")[1]);
-    const drink = DRINKS[idx as number];
-    if (!Number.isFinite(idx) || !drink) {
-      await safeTg(() => tgAnswerCallbackQuery(cb.id, "Unknown item"));
+    const range = parseReportRange(args.join(" "));
+    if (!range) {
+      await safeTg(() => tgSendMessage(chatId, t(lang, "reportUsage")));
       return;
     }
-
-    if (!drink.oat) {
-      // Non-oat: show BYOC choice before confirming
-      const byoc = buildByocChoice(idx, false);
+    try {
+      const summary = await loadSummary(range);
       await safeTg(() =>
-        tgEditMessageText(chatId, messageId, "Bring your own cup?"),
+        tgSendMessage(chatId, summaryText(summary, range.label)),
       );
-      await safeTg(() => tgEditReplyMarkup(chatId, messageId, byoc));
-      await safeTg(() => tgAnswerCallbackQuery(cb.id, ""));
-      return;
+    } catch (e: any) {
+      console.error(`report error: ${e?.message || String(e)}`);
+      await safeTg(() => tgSendMessage(chatId, t(lang, "reportFailed")));
     }
+    return;
+  }
 
-    // Oat-eligible: show two options once, by editing the same message
-    const onceKey = keyFromParts(chatId, messageId, idx);
-    if (!milkPromptOnce.once(onceKey)) {
-      await safeTg(() => tgAnswerCallbackQuery(cb.id, ""));
+  if (command === "/stamps") {
+    // Staff can look up anyone: /stamps @alice
+    const target = args[0] ? normalizeUsername(args[0]) : "";
+    if (target) {
+      const ok = await requireRole(msg.from, "viewer", () =>
+        tgSendMessage(chatId, t(lang, "stampsOwnOnly")),
+      );
+      if (!ok) return;
+    }
+    if (!STAMP_CARD_SIZE) {
+      await safeTg(() => tgSendMessage(chatId, t(lang, "noStampCard")));
       return;
     }
-
-    const choices = buildOatChoice(idx);
-    await safeTg(() => tgEditMessageText(chatId, messageId, "Milk Option:"));
-    await safeTg(() => tgEditReplyMarkup(chatId, messageId, choices));
-    await safeTg(() => tgAnswerCallbackQuery(cb.id, ""));
+    try {
+      const known = target ? await findCustomer(target) : null;
+      const card = await stampCard(
+        target
+          ? { userId: known?.userId, username: target }
+          : {
+              userId: msg.from?.id,
+              username: normalizeUsername(msg.from?.username || ""),
+            },
+      );
+      await safeTg(() =>
+        tgSendMessage(chatId, stampCardText(card, target, lang)),
+      );
+    } catch (e: any) {
+      console.error(`stamps error: ${e?.message || String(e)}`);
+      await safeTg(() => tgSendMessage(chatId, t(lang, "stampsFailed")));
+    }
     return;
   }
 
-  if (data.startsWith("C|")) {
-    const parts = data.split("|");
-    const idx = Number(parts[1]);
-    const oatFlag = parts[2] === "1";
-    const drink = DRINKS[idx as number];
-
-    if (!Number.isFinite(idx) || !drink) {
-      await safeTg(() => tgAnswerCallbackQuery(cb.id, ""));
-      return;
+  if (command === "/balance") {
+    // Staff can look up anyone: /balance @alice
+    const target = args[0] ? normalizeUsername(args[0]) : "";
+    if (target) {
+      const ok = await requireRole(msg.from, "viewer", () =>
+        tgSendMessage(chatId, t(lang, "balanceOwnOnly")),
+      );
+      if (!ok) return;
+    }
+    try {
+      const known = target ? await findCustomer(target) : null;
+      const who = target
+        ? { userId: known?.userId, username: target }
+        : {
+            userId: msg.from?.id,
+            username: normalizeUsername(msg.from?.username || ""),
+          };
+      const bal = await customerBalance(who);
+      const params = {
+        customer: target,
+        amount: fmtMoney(Math.abs(bal.balance)),
+      };
+      const lines = [
+        bal.balance > 0
+          ? t(lang, target ? "theyOwe" : "youOwe", params)
+          : bal.balance < 0
+            ? t(lang, target ? "theyHaveCredit" : "youHaveCredit", params)
+            : t(lang, target ? "theyAreSettled" : "youAreSettled", params),
+        t(lang, "balanceTotals", {
+          ordered: fmtMoney(bal.ordered),
+          paid: fmtMoney(bal.paid),
+        }),
+      ];
+      if (!target && bal.balance > 0 && PAY_URL) lines.push(t(lang, "usePay"));
+      await safeTg(() => tgSendMessage(chatId, lines.join("\n")));
+    } catch (e: any) {
+      console.error(`balance error: ${e?.message || String(e)}`);
+      await safeTg(() => tgSendMessage(chatId, t(lang, "balanceFailed")));
     }
-
-    // After milk selection, show BYOC choice
-    const byoc = buildByocChoice(idx, oatFlag);
-    await safeTg(() =>
-      tgEditMessageText(chatId, messageId, "Bring your own cup?"),
-    );
-    await safeTg(() => tgEditReplyMarkup(chatId, messageId, byoc));
-    await safeTg(() => tgAnswerCallbackQuery(cb.id, ""));
     return;
   }
 
-  // Handle BYOC selection: B|<idx>|<oatFlag>|<byocFlag>
-  if (data.startsWith("B|")) {
-    const parts = data.split("|");
-    const idx = Number(parts[1]);
-    const oatFlag = parts[2] === "1";
-    const byocFlag = parts[3] === "1";
-    const drink = DRINKS[idx as number];
-    if (!Number.isFinite(idx) || !drink) {
-      await safeTg(() => tgAnswerCallbackQuery(cb.id, ""));
+  if (command === "/paid") {
+    if (
+      !(await requireRole(msg.from, "barista", () => denyMessage(chatId, lang)))
+    )
+      return;
+
+    const customer = normalizeUsername(args[0] || "");
+    // "4.50", "$4.50", "€4.50", "RM4.50": whatever currency sign is typed in front
+    const amount = Number((args[1] || "").replace(/^[^\d.-]+/, ""));
+    if (!customer || !Number.isFinite(amount) || amount <= 0) {
+      await safeTg(() => tgSendMessage(chatId, t(lang, "paidUsage")));
       return;
     }
-    qtyPadByUser.set(keyFromParts(chatId, cb.from.id), {
-      messageId,
-      idx,
-      oat: oatFlag,
-      byoc: byocFlag,
-      buffer: "",
+    const ok = await recordPayment({
+      chatId,
+      recordedBy: msg.from,
+      customer,
+      amount: fromCents(toCents(amount)),
+      orderId: "",
+      note: args.slice(2).join(" "),
+      lang,
     });
-    await safeTg(() =>
-      tgEditMessageText(chatId, messageId, "Enter quantity (1–10):"),
-    );
-    await safeTg(() =>
-      tgEditReplyMarkup(chatId, messageId, { inline_keyboard: [] }),
-    );
-    await safeTg(() => tgAnswerCallbackQuery(cb.id, ""));
-    return;
-  }
-  // Quantity adjustment callbacks removed; ignore legacy Q| callbacks if any
-  if (data.startsWith("Q|")) {
-    await safeTg(() => tgAnswerCallbackQuery(cb.id, ""));
+    if (!ok) {
+      await safeTg(() => tgSendMessage(chatId, t(lang, "couldntSave")));
+    }
     return;
   }
 
-  // Handle final confirmation: Y|<idx>|<oatFlag>|<byocFlag>|<qty>
+  if (command === "/grant" || command === "/revoke") {
+    if (
+      !(await requireRole(msg.from, "owner", () => denyMessage(chatId, lang)))
+    )
+      return;
+
+    const granting = command === "/grant";
+    // Target: a reply to their message, a numeric user id, or an @username they've used with the bot
+    const replied = msg.reply_to_message?.from;
+    const who = replied ? "" : args[0] || "";
+    const roleArg = ((replied ? args[0] : args[1]) || "").toLowerCase();
+    const usage = t(lang, granting ? "grantUsage" : "revokeUsage");
+    if ((!replied && !who) || (granting && !isRole(roleArg))) {
+      await safeTg(() => tgSendMessage(chatId, usage));
+      return;
+    }
+
+    let target: { userId: number; username: string; name: string } | null =
+      null;
+    if (replied) {
+      target = {
+        userId: replied.id,
+        username: normalizeUsername(replied.username || ""),
+        name: [replied.first_name, replied.last_name].filter(Boolean).join(" "),
+      };
+    } else if (/^\d+$/.test(who)) {
+      target = { userId: Number(who), username: "", name: "" };
+    } else {
+      const known = await findCustomer(who);
+      if (known) {
+        target = {
+          userId: known.userId,
+          username: known.username,
+          name: known.fullName,
+        };
+      }
+    }
+    if (!target) {
+      await safeTg(() =>
+        tgSendMessage(chatId, t(lang, "unknownUser", { who })),
+      );
+      return;
+    }
+    if (target.userId === msg.from?.id) {
+      await safeTg(() => tgSendMessage(chatId, t(lang, "ownRole")));
+      return;
+    }
+
+    const label = target.username || target.name || String(target.userId);
+    const by = staffLabel(msg.from);
+    try {
+      let reply: string;
+      let newRole: Role | null = null;
+      if (granting) {
+        newRole = roleArg as Role;
+        await grantRole({
+          userId: target.userId,
+          username: target.username,
+          name: target.name,
+          role: newRole,
+          updatedBy: by,
+        });
+        reply = t(lang, "roleGranted", {
+          who: label,
+          role: t(lang, ROLE_NAMES[newRole]),
+        });
+      } else {
+        const removed = await revokeRole(target, by);
+        reply = t(lang, removed ? "roleRevoked" : "roleNone", { who: label });
+      }
+      await safeTg(() => tgSendMessage(chatId, reply));
+      // Refresh their private-chat command menu right away
+      await safeTg(() =>
+        tgSetMyCommands(commandsForRole(newRole), {
+          type: "chat",
+          chat_id: target!.userId,
+        }),
+      );
+    } catch (e: any) {
+      console.error(`staff update error: ${e?.message || String(e)}`);
+      await safeTg(() => tgSendMessage(chatId, t(lang, "couldntSave")));
+    }
+    return;
+  }
+
+  if (command === "/language") {
+    // Replies in groups are in the shop's language, so the choice only matters in a private chat
+    if (!isPrivate || !msg.from) {
+      await safeTg(() => tgSendMessage(chatId, t(lang, "languagePrivate")));
+      return;
+    }
+    const choice = (args[0] || "").toLowerCase();
+    if (!choice) {
+      await safeTg(() =>
+        tgSendMessage(
+          chatId,
+          t(lang, "languageCurrent", { language: LANGUAGES[lang] }),
+          buildLanguageKeyboard(lang),
+        ),
+      );
+      return;
+    }
+    if (choice !== "auto" && !isLang(choice)) {
+      const codes = Object.keys(LANGUAGES).join("|");
+      await safeTg(() =>
+        tgSendMessage(chatId, t(lang, "languageUsage", { codes })),
+      );
+      return;
+    }
+    const reply = await chooseLanguage(msg.from, choice);
+    await safeTg(() => tgSendMessage(chatId, reply));
+    return;
+  }
+
+  // Ignore other messages
+}
+
+async function handleCallback(cb: TgCallbackQuery) {
+  await ensureMenuFresh();
+  const data = cb.data || "";
+  const msg = cb.message;
+  if (!msg) {
+    await safeTg(() => tgAnswerCallbackQuery(cb.id, ""));
+    return;
+  }
+
+  const lang = await replyLang(msg.chat, cb.from);
+
+  // Customers may build their own cart in their private chat (/order) and pick
+  // a language; every other callback is for baristas and owners
+  const customerTap =
+    (msg.chat?.type || "").toLowerCase() === "private" &&
+    /^[KDMARCXYNQL]\|/.test(data);
+  if (!customerTap) {
+    const allowed = await requireRole(cb.from, "barista", () =>
+      tgAnswerCallbackQuery(cb.id, t(lang, "notAuthorizedShort")),
+    );
+    if (!allowed) return;
+  }
+
+  const chatId = msg.chat.id;
+  const messageId = msg.message_id;
+
+  // Browse the menu: K| (category list) or K|<slug>|<page> (a page of one category)
+  if (data.startsWith("K|")) {
+    const [, slug, page] = data.split("|");
+    // A category renamed or emptied since the keyboard was sent: back to the list
+    const category = slug ? categoryBySlug(slug) : undefined;
+    const menu = category
+      ? buildCategoryMenu(category, Number(page), lang)
+      : buildMainMenu(lang);
+    await safeTg(() => tgEditReplyMarkup(chatId, messageId, menu));
+    await safeTg(() => tgAnswerCallbackQuery(cb.id, ""));
+    return;
+  }
+
+  if (data.startsWith("D|")) {
+    const drink = drinkById(data.split("|")[1] || "");
+    if (!drink) {
+      await safeTg(() => tgAnswerCallbackQuery(cb.id, t(lang, "unknownItem")));
+      return;
+    }
+    if (!drink.available) {
+      // Sold out since this keyboard was sent: redraw it without the drink
+      await safeTg(() =>
+        tgAnswerCallbackQuery(
+          cb.id,
+          tPlain(lang, "drinkSoldOut", { drink: drinkName(drink, lang) }),
+        ),
+      );
+      await safeTg(() =>
+        tgEditReplyMarkup(chatId, messageId, buildMainMenu(lang)),
+      );
+      return;
+    }
+
+    // Show the first modifier group once, by editing the same message
+    const onceKey = keyFromParts(chatId, messageId, drink.id);
+    if (!modifierPromptOnce.once(onceKey)) {
+      await safeTg(() => tgAnswerCallbackQuery(cb.id, ""));
+      return;
+    }
+
+    await promptModifierOrQty(
+      chatId,
+      messageId,
+      cb.from.id,
+      drink.id,
+      [],
+      lang,
+    );
+    await safeTg(() => tgAnswerCallbackQuery(cb.id, ""));
+    return;
+  }
+
+  // Handle a modifier pick: M|<drinkId>|<modifierVersion>|<option index per group so far, dot-separated>
+  if (data.startsWith("M|")) {
+    const [, drinkId = "", version, rawPicks] = data.split("|");
+    const picks = parsePicks(rawPicks);
+    const drink = drinkById(drinkId);
+    if (!drink || picks.some((p) => !(p >= 0))) {
+      await safeTg(() => tgAnswerCallbackQuery(cb.id, ""));
+      return;
+    }
+    // The Modifiers tab changed since these buttons were sent: ask again from the first group
+    if (version !== modifierVersion(drink)) {
+      await promptModifierOrQty(
+        chatId,
+        messageId,
+        cb.from.id,
+        drink.id,
+        [],
+        lang,
+      );
+      await safeTg(() =>
+        tgAnswerCallbackQuery(cb.id, tPlain(lang, "optionsChanged")),
+      );
+      return;
+    }
+
+    await promptModifierOrQty(
+      chatId,
+      messageId,
+      cb.from.id,
+      drink.id,
+      picks,
+      lang,
+    );
+    await safeTg(() => tgAnswerCallbackQuery(cb.id, ""));
+    return;
+  }
+
+  // Quantity adjustment callbacks removed; ignore legacy Q| callbacks if any
+  if (data.startsWith("Q|")) {
+    await safeTg(() => tgAnswerCallbackQuery(cb.id, ""));
+    return;
+  }
+
+  const cartKey = cartKeyFor(chatId, cb.from.id);
+
+  // Add another item: A| — back to the drinks menu, cart kept
+  if (data.startsWith("A|")) {
+    const menu = buildMainMenu(lang);
+    await safeTg(() =>
+      tgEditMessageText(chatId, messageId, t(lang, "chooseDrink")),
+    );
+    await safeTg(() => tgEditReplyMarkup(chatId, messageId, menu));
+    await safeTg(() => tgAnswerCallbackQuery(cb.id, ""));
+    return;
+  }
+
+  // Remove the most recent line: R|
+  if (data.startsWith("R|")) {
+    const cart = await getSessionStore().get<Cart>(cartKey);
+    if (!cart || cart.messageId !== messageId) {
+      await getSessionStore().delete(cartKey);
+      await showCartOrMenu(chatId, messageId, { messageId, lines: [] }, lang);
+      await safeTg(() => tgAnswerCallbackQuery(cb.id, ""));
+      return;
+    }
+    cart.lines.pop();
+    // An emptied cart keeps its customer so the next drink is still billed to them
+    await showCartOrMenu(chatId, messageId, cart, lang, cartKey);
+    await safeTg(() => tgAnswerCallbackQuery(cb.id, ""));
+    return;
+  }
+
+  // Void an order from /history: V|<key>|<limit>
+  if (data.startsWith("V|")) {
+    const [, key = "", rawLimit] = data.split("|");
+    const limit = Number(rawLimit) || HISTORY_DEFAULT;
+    try {
+      const ref = refFromKey(key);
+      const rows = ref.orderId
+        ? await getOrderStore().findByOrderId(ref.orderId)
+        : (await loadHistory({ chatId, limit: Infinity })).find(
+            (e) => e.key === key,
+          )?.rows || [];
+      if (!rows.length) {
+        await safeTg(() =>
+          tgAnswerCallbackQuery(cb.id, t(lang, "orderNotFound")),
+        );
+        return;
+      }
+      // Baristas can void their own orders; owners can void anyone's
+      if (rows[0].userId !== cb.from.id) {
+        const ok = await requireRole(cb.from, "owner", () =>
+          tgAnswerCallbackQuery(cb.id, t(lang, "onlyOwnersVoid")),
+        );
+        if (!ok) return;
+      }
+      const voided = await getOrderStore().void(ref, staffLabel(cb.from));
+      await restoreStockFor(voided);
+      await safeTg(() =>
+        tgAnswerCallbackQuery(
+          cb.id,
+          t(lang, voided.length ? "voided" : "alreadyVoided"),
+        ),
+      );
+      const view = await renderHistory(chatId, cb.from, limit, lang);
+      await safeTg(() => tgEditMessageText(chatId, messageId, view.text));
+      await safeTg(() => tgEditReplyMarkup(chatId, messageId, view.keyboard));
+    } catch (e: any) {
+      console.error(`void error: ${e?.message || String(e)}`);
+      await safeTg(() => tgAnswerCallbackQuery(cb.id, t(lang, "voidFailed")));
+    }
+    return;
+  }
+
+  // Log a past order again: H|<key> opens a new cart with the same lines at today's prices
+  if (data.startsWith("H|")) {
+    const key = data.slice(2);
+    try {
+      const entry = (await loadHistory({ chatId, limit: Infinity })).find(
+        (e) => e.key === key,
+      );
+      if (!entry) {
+        await safeTg(() =>
+          tgAnswerCallbackQuery(cb.id, t(lang, "orderNotFound")),
+        );
+        return;
+      }
+      const lines: CartLine[] = [];
+      const missing: string[] = [];
+      for (const row of entry.rows) {
+        const line = cartLineFromOrder(row);
+        if (line) lines.push(line);
+        else missing.push(row.drink);
+      }
+      if (!lines.length) {
+        await safeTg(() => tgAnswerCallbackQuery(cb.id, t(lang, "repeatGone")));
+        return;
+      }
+      const cart: Cart = {
+        messageId: 0,
+        lines,
+        customer: entry.customer || undefined,
+        customerId: entry.rows[0].customerId || undefined,
+      };
+      const note = missing.length
+        ? `\n${t(lang, "repeatMissing", { drinks: missing.join(", ") })}`
+        : "";
+      const price = await priceFor(cart);
+      const sent = await safeTg(() =>
+        tgSendMessage(
+          chatId,
+          cartText(cart, t(lang, "cartRepeat"), price, lang) + note,
+          buildCartKeyboard(false, false, lang),
+        ),
+      );
+      if (!sent || typeof (sent as any).message_id !== "number") {
+        await safeTg(() => tgAnswerCallbackQuery(cb.id, t(lang, "tryAgain")));
+        return;
+      }
+      cart.messageId = (sent as any).message_id;
+      cart.shownTotal = price.total;
+      await getSessionStore().set<Cart>(cartKey, cart, CART_TTL_MS);
+      await safeTg(() => tgAnswerCallbackQuery(cb.id, ""));
+    } catch (e: any) {
+      console.error(`repeat error: ${e?.message || String(e)}`);
+      await safeTg(() => tgAnswerCallbackQuery(cb.id, t(lang, "repeatFailed")));
+    }
+    return;
+  }
+
+  // A barista answers a customer's order request: T|a|<ticketId> accept, T|r|<ticketId> reject
+  if (data.startsWith("T|")) {
+    const [, action, ticketId = ""] = data.split("|");
+    await handleTicket(cb, messageId, ticketId, action === "a", lang);
+    return;
+  }
+
+  // Ask who the cart is for: U|
+  if (data.startsWith("U|")) {
+    const cart = await getSessionStore().get<Cart>(cartKey);
+    if (!cart || cart.messageId !== messageId) {
+      await safeTg(() =>
+        tgAnswerCallbackQuery(cb.id, t(lang, "cartExpiredLog")),
+      );
+      return;
+    }
+    await getSessionStore().set<CustomerPad>(
+      customerPadKeyFor(chatId, cb.from.id),
+      { messageId },
+      QTY_PAD_TTL_MS,
+    );
+    await safeTg(() =>
+      tgEditMessageText(chatId, messageId, t(lang, "customerPrompt")),
+    );
+    await safeTg(() =>
+      tgEditReplyMarkup(chatId, messageId, { inline_keyboard: [] }),
+    );
+    await safeTg(() => tgAnswerCallbackQuery(cb.id, ""));
+    return;
+  }
+
+  // Make one cup of the last line the customer's free stamp-card drink: G|
+  if (data.startsWith("G|")) {
+    const cart = await getSessionStore().get<Cart>(cartKey);
+    if (!cart || cart.messageId !== messageId) {
+      await safeTg(() => tgAnswerCallbackQuery(cb.id, t(lang, "cartExpired")));
+      return;
+    }
+    if ((await freeDrinksLeft(cart)) < 1) {
+      await safeTg(() => tgAnswerCallbackQuery(cb.id, t(lang, "noFreeDrink")));
+      return;
+    }
+    if (!redeemReward(cart)) {
+      await safeTg(() =>
+        tgAnswerCallbackQuery(cb.id, t(lang, "addFreeDrinkFirst")),
+      );
+      return;
+    }
+    await showCartOrMenu(chatId, messageId, cart, lang, cartKey);
+    await safeTg(() => tgAnswerCallbackQuery(cb.id, t(lang, "freeDrinkAdded")));
+    return;
+  }
+
+  // Ask for a promo code: C|
+  if (data.startsWith("C|")) {
+    const cart = await getSessionStore().get<Cart>(cartKey);
+    if (!cart || cart.messageId !== messageId) {
+      await safeTg(() => tgAnswerCallbackQuery(cb.id, t(lang, "cartExpired")));
+      return;
+    }
+    await getSessionStore().set<CodePad>(
+      codePadKeyFor(chatId, cb.from.id),
+      { messageId },
+      QTY_PAD_TTL_MS,
+    );
+    await safeTg(() =>
+      tgEditMessageText(chatId, messageId, t(lang, "promoPrompt")),
+    );
+    await safeTg(() =>
+      tgEditReplyMarkup(chatId, messageId, { inline_keyboard: [] }),
+    );
+    await safeTg(() => tgAnswerCallbackQuery(cb.id, ""));
+    return;
+  }
+
+  // Mark a saved order as paid in full: P|<orderId>
+  if (data.startsWith("P|")) {
+    const orderId = data.split("|")[1] || "";
+    try {
+      const [rows, payments] = await Promise.all([
+        getOrderStore().findByOrderId(orderId),
+        getPaymentStore().list(),
+      ]);
+      const active = rows.filter((r) => !isVoided(r));
+      if (!active.length || !active[0].customer) {
+        await safeTg(() =>
+          tgAnswerCallbackQuery(cb.id, t(lang, "orderNotFound")),
+        );
+        return;
+      }
+      // Paying leaves the status buttons in place
+      const paidKb = buildStatusKeyboard(
+        orderId,
+        active[0].status,
+        false,
+        lang,
+      );
+      if (payments.some((p) => p.orderId === orderId)) {
+        await safeTg(() =>
+          tgAnswerCallbackQuery(cb.id, t(lang, "alreadyPaid")),
+        );
+        await safeTg(() => tgEditReplyMarkup(chatId, messageId, paidKb));
+        return;
+      }
+      const total = sumMoney(active.map((r) => r.total));
+      const ok = await recordPayment({
+        chatId,
+        recordedBy: cb.from,
+        customer: active[0].customer,
+        customerId: active[0].customerId || undefined,
+        amount: total,
+        orderId,
+        note: "",
+        lang,
+      });
+      if (ok) {
+        await safeTg(() => tgEditReplyMarkup(chatId, messageId, paidKb));
+      }
+      await safeTg(() =>
+        tgAnswerCallbackQuery(
+          cb.id,
+          t(lang, ok ? "markedPaid" : "couldntSaveShort"),
+        ),
+      );
+    } catch (e: any) {
+      console.error(`mark paid error: ${e?.message || String(e)}`);
+      await safeTg(() =>
+        tgAnswerCallbackQuery(cb.id, t(lang, "couldntSaveShort")),
+      );
+    }
+    return;
+  }
+
+  // Move a saved order along: S|<orderId>|<p|r|c>
+  if (data.startsWith("S|")) {
+    const [, orderId = "", code = ""] = data.split("|");
+    await handleStatus(cb, messageId, orderId, code, lang);
+    return;
+  }
+
+  // Cancel the whole cart: X|
+  if (data.startsWith("X|")) {
+    await getSessionStore().delete(cartKey);
+    await safeTg(() =>
+      tgEditMessageText(chatId, messageId, t(lang, "orderCancelled")),
+    );
+    await safeTg(() =>
+      tgEditReplyMarkup(chatId, messageId, { inline_keyboard: [] }),
+    );
+    await safeTg(() => tgAnswerCallbackQuery(cb.id, ""));
+    return;
+  }
+
+  // Handle final confirmation of the cart: Y|
   if (data.startsWith("Y|")) {
-    const parts = data.split("|");
-    const idx = Number(parts[1]);
-    const oatFlag = parts[2] === "1";
-    const byocFlag = parts[3] === "1";
-    const qtyKey = keyFromParts(chatId, messageId, idx, oatFlag, byocFlag);
-    const qtyFromMem = Math.max(
-      1,
-      Number(pendingQtyByMessage.get(qtyKey) || 0),
+    const cart = await getSessionStore().get<Cart>(cartKey);
+    if (!cart || cart.messageId !== messageId || !cart.lines.length) {
+      await safeTg(() => tgAnswerCallbackQuery(cb.id, t(lang, "cartExpired")));
+      return;
+    }
+    const soldOut = cart.lines
+      .map((l) => drinkById(l.drinkId))
+      .find((d) => d?.available === false);
+    if (soldOut) {
+      await safeTg(() =>
+        tgAnswerCallbackQuery(
+          cb.id,
+          tPlain(lang, "soldOutRemove", { drink: drinkName(soldOut, lang) }),
+        ),
+      );
+      return;
+    }
+    // The cart shows the prices that will be saved: if the menu changed since, show the new ones first
+    const repriced = cart.lines.map(repriceLine);
+    const gone = cart.lines.find((_, i) => !repriced[i]);
+    if (gone) {
+      await safeTg(() =>
+        tgAnswerCallbackQuery(
+          cb.id,
+          tPlain(lang, "goneRemove", { drink: gone.name }),
+        ),
+      );
+      return;
+    }
+    // A promotion can also start or end between review and Confirm: compare the total too
+    const price = await priceFor({ ...cart, lines: repriced as CartLine[] });
+    const changed =
+      price.total !== cart.shownTotal ||
+      cart.lines.some(
+        (l, i) => priceLine(l).unit !== priceLine(repriced[i]!).unit,
+      );
+    if (changed) {
+      cart.lines = repriced as CartLine[];
+      cart.shownTotal = price.total;
+      await getSessionStore().set<Cart>(cartKey, cart, CART_TTL_MS);
+      await safeTg(() =>
+        tgEditMessageText(
+          chatId,
+          messageId,
+          cartText(cart, t(lang, "pricesChanged"), price, lang),
+        ),
+      );
+      await safeTg(() =>
+        tgEditReplyMarkup(
+          chatId,
+          messageId,
+          buildCartKeyboard(!!cart.selfOrder, false, lang),
+        ),
+      );
+      await safeTg(() =>
+        tgAnswerCallbackQuery(cb.id, t(lang, "pricesChangedShort")),
+      );
+      return;
+    }
+
+    if (cart.selfOrder || !hasRole(await staffRoleOf(cb.from), "barista")) {
+      await submitSelfOrder(cb, messageId, cart, lang);
+      return;
+    }
+
+    // Someone else may have redeemed the reward since it was added
+    if (rewardCups(cart.lines) && (await freeDrinksLeft(cart)) < 0) {
+      await safeTg(() =>
+        tgAnswerCallbackQuery(cb.id, t(lang, "noFreeDrinkOnCard")),
+      );
+      return;
+    }
+
+    const orderId = await tryAppendOrder({
+      chatId,
+      user: cb.from,
+      messageId,
+      callbackId: cb.id,
+      lines: cart.lines,
+      customer: cart.customer,
+      customerId: cart.customerId,
+      price,
+    });
+
+    if (orderId) {
+      await getSessionStore().delete(cartKey);
+      await safeTg(() =>
+        tgEditMessageText(
+          chatId,
+          messageId,
+          withStatusLine(
+            cartText(cart, t(lang, "savedOrder", { orderId }), price, lang),
+            "Queued",
+            lang,
+          ),
+        ),
+      );
+      // The saved message is the order's ticket; tabbed orders can be settled from it too
+      await safeTg(() =>
+        tgEditReplyMarkup(
+          chatId,
+          messageId,
+          buildStatusKeyboard(orderId, "Queued", !!cart.customer, lang),
+        ),
+      );
+      await safeTg(() => tgAnswerCallbackQuery(cb.id, ""));
+      await consumeStockFor(cart.lines);
+      if (cart.customer) {
+        await maybeRemindBalance(cart.customer, cart.customerId);
+      }
+    } else {
+      await safeTg(() => tgAnswerCallbackQuery(cb.id, t(lang, "couldntSave")));
+      await safeTg(() => tgSendMessage(chatId, t(lang, "couldntSave")));
+    }
+    return;
+  }
+
+  // Handle cancel: N|<drinkId> — restore drinks menu and allow future modifier prompt
+  if (data.startsWith("N|")) {
+    const drinkId = data.split("|")[1] || "";
+    // Clear once-guard so modifier choices can be shown again later for this message
+    modifierPromptOnce.delete(keyFromParts(chatId, messageId, drinkId));
+    const menu = buildMainMenu(lang);
+    await safeTg(() =>
+      tgEditMessageText(chatId, messageId, t(lang, "chooseDrink")),
     );
-    const qty = qtyFromMem || Math.max(1, Number(parts[4]) || 1);
-    const drink = DRINKS[idx as number];
-    if (!Number.isFinite(idx) || !drink) {
+    await safeTg(() => tgEditReplyMarkup(chatId, messageId, menu));
+    await safeTg(() => tgAnswerCallbackQuery(cb.id, ""));
+    return;
+  }
+
+  // Pick a language from /language: L|<code>, or L|auto to follow Telegram's
+  if (data.startsWith("L|")) {
+    const choice = data.slice(2);
+    if (choice !== "auto" && !isLang(choice)) {
       await safeTg(() => tgAnswerCallbackQuery(cb.id, ""));
       return;
     }
+    const reply = await chooseLanguage(cb.from, choice);
+    await safeTg(() => tgEditMessageText(chatId, messageId, reply));
+    await safeTg(() =>
+      tgEditReplyMarkup(chatId, messageId, { inline_keyboard: [] }),
+    );
+    await safeTg(() => tgAnswerCallbackQuery(cb.id, ""));
+    return;
+  }
+
+  // Unknown callback
+  await safeTg(() => tgAnswerCallbackQuery(cb.id, ""));
+}
+
+/**
+ * The user's staff role, or null for customers (and when the Staff tab can't be read).
+ */
+async function staffRoleOf(user?: TgUser): Promise<Role | null> {
+  try {
+    return await roleOf(user);
+  } catch (e: any) {
+    console.error(`staff lookup error: ${e?.message || String(e)}`);
+    return null;
+  }
+}
+
+/**
+ * The single staff authorization check for messages and callbacks.
+ * Calls `deny` (e.g., a "Not authorized" reply) and returns false when the user's role is below `need`.
+ */
+async function requireRole(
+  user: TgUser | undefined,
+  need: Role,
+  deny: () => Promise<unknown>,
+): Promise<boolean> {
+  if (hasRole(await staffRoleOf(user), need)) return true;
+  await safeTg(deny);
+  return false;
+}
+
+/**
+ * The language to reply in: the user's own in a private chat, the shop's in
+ * groups (everyone there reads the same messages).
+ */
+async function replyLang(chat: TgChat | undefined, user?: TgUser) {
+  const own = await userLang(user);
+  return (chat?.type || "").toLowerCase() === "private" ? own : shopLang();
+}
+
+/**
+ * Save a /language choice ("auto" = follow Telegram) and confirm it in the new language.
+ */
+async function chooseLanguage(user: TgUser, choice: string): Promise<string> {
+  try {
+    await setUserLang(user.id, isLang(choice) ? choice : null);
+  } catch (e: any) {
+    console.error(`language save error: ${e?.message || String(e)}`);
+    return t(await userLang(user), "couldntSave");
+  }
+  const lang = await userLang(user);
+  return t(lang, isLang(choice) ? "languageSet" : "languageFollow", {
+    language: LANGUAGES[lang],
+  });
+}
+
+const ROLE_NAMES = {
+  owner: "roleOwner",
+  barista: "roleBarista",
+  viewer: "roleViewer",
+} as const;
+
+/**
+ * How a staff member is recorded in the sheets: "@username", else their name or id.
+ */
+function staffLabel(user?: TgUser): string {
+  if (!user) return "";
+  if (user.username) return `@${user.username}`;
+  const name = [user.first_name, user.last_name].filter(Boolean).join(" ");
+  return name || String(user.id);
+}
+
+function denyMessage(chatId: number, lang: Lang) {
+  return tgSendMessage(chatId, t(lang, "notAuthorized"));
+}
 
-    const ok = await tryAppendOrder({
+/**
+ * The /history list for a staff member: owners see every order in the chat,
+ * baristas their own.
+ */
+async function renderHistory(
+  chatId: number,
+  user: TgUser,
+  limit: number,
+  lang: Lang,
+) {
+  const n = Math.min(limit, HISTORY_MAX);
+  const owner = hasRole(await roleOf(user), "owner");
+  const entries = await loadHistory({
+    chatId,
+    userId: owner ? undefined : user.id,
+    limit: n,
+  });
+  const heading = t(lang, owner ? "historyAll" : "historyOwn", { count: n });
+  return {
+    text: historyText(entries, heading),
+    keyboard: buildHistoryKeyboard(entries, n, lang),
+  };
+}
+
+/**
+ * Re-render the cart message: the cart with its buttons, or the drinks menu if it has no lines yet.
+ * With a cartKey the cart is saved first, along with the total it shows (checked again on ✅ Confirm).
+ */
+async function showCartOrMenu(
+  chatId: number,
+  messageId: number,
+  cart: Cart,
+  lang: Lang,
+  cartKey?: string,
+) {
+  const price = cart.lines.length ? await priceFor(cart) : null;
+  if (cartKey) {
+    cart.shownTotal = price?.total;
+    await getSessionStore().set<Cart>(cartKey, cart, CART_TTL_MS);
+  }
+  const free = cart.customer ? await freeDrinksLeft(cart) : 0;
+  const owed = freeDrinksNote(cart, free, lang);
+  if (!cart.lines.length) {
+    const heading = cart.customer
+      ? t(lang, "orderFor", { customer: cart.customer }) + owed
+      : t(lang, "chooseDrink");
+    await safeTg(() => tgEditMessageText(chatId, messageId, heading));
+    await safeTg(() =>
+      tgEditReplyMarkup(chatId, messageId, buildMainMenu(lang)),
+    );
+    return;
+  }
+  await safeTg(() =>
+    tgEditMessageText(
       chatId,
-      user: cb.from,
       messageId,
-      callbackId: cb.id,
-      drinkIdx: idx,
-      oat: oatFlag,
-      byoc: byocFlag,
-      qty,
-    });
+      cartText(cart, t(lang, "cart"), price!, lang) + owed,
+    ),
+  );
+  await safeTg(() =>
+    tgEditReplyMarkup(
+      chatId,
+      messageId,
+      buildCartKeyboard(cart.selfOrder, free > 0, lang),
+    ),
+  );
+}
 
-    if (ok) {
-      const base = drink.price;
-      const up = oatFlag ? OAT_UPCHARGE : 0;
-      const disc = byocFlag ? BYOC_DISCOUNT : 0;
-      const unit = base + up - disc;
-      const total = unit * qty;
-      const savedText =
-        oatFlag && byocFlag
-          ? `Saved: ${drink.name} with oat milk (BYOC) — ${fmtMoney(base)} + ${fmtMoney(OAT_UPCHARGE)} − ${fmtMoney(BYOC_DISCOUNT)} = ${fmtMoney(unit)}${qty > 1 ? ` × ${qty} = ${fmtMoney(total)}` : ""}`
-          : oatFlag && !byocFlag
-            ? `Saved: ${drink.name} with oat milk — ${fmtMoney(base)} + ${fmtMoney(OAT_UPCHARGE)} = ${fmtMoney(unit)}${qty > 1 ? ` × ${qty} = ${fmtMoney(total)}` : ""}`
-            : !oatFlag && byocFlag
-              ? `Saved: ${drink.name} (BYOC) — ${fmtMoney(base)} − ${fmtMoney(BYOC_DISCOUNT)} = ${fmtMoney(unit)}${qty > 1 ? ` × ${qty} = ${fmtMoney(total)}` : ""}`
-              : `Saved: ${drink.name} — ${fmtMoney(unit)}${qty > 1 ? ` × ${qty} = ${fmtMoney(total)}` : ""}`;
-      await safeTg(() => tgEditMessageText(chatId, messageId, savedText));
-      await safeTg(() =>
-        tgEditReplyMarkup(chatId, messageId, { inline_keyboard: [] }),
-      );
-      pendingQtyByMessage.delete(qtyKey);
-      await safeTg(() => tgAnswerCallbackQuery(cb.id, ""));
-    } else {
-      await safeTg(() =>
-        tgAnswerCallbackQuery(cb.id, "⚠ couldn't save, try again"),
-      );
-      await safeTg(() => tgSendMessage(chatId, "⚠ couldn't save, try again"));
+/**
+ * "🎁 @alice has 1 free drink to redeem" on its own line, or "" if they have none.
+ */
+function freeDrinksNote(cart: Cart, free: number, lang: Lang): string {
+  if (free < 1) return "";
+  return `\n${t(lang, "freeDrinksNote", { customer: cart.customer || "", count: free })}`;
+}
+
+/**
+ * Stamp-card rewards the cart's customer has left once the cart's free drinks
+ * are counted: negative if the cart holds more than they're owed. Customers'
+ * own carts and untagged carts have none; so does a card that can't be read.
+ */
+async function freeDrinksLeft(cart: Cart): Promise<number> {
+  let rewards = 0;
+  if (!cart.selfOrder && cart.customer && STAMP_CARD_SIZE) {
+    try {
+      const card = await stampCard({
+        userId: cart.customerId,
+        username: cart.customer,
+      });
+      rewards = card.rewards;
+    } catch (e: any) {
+      console.error(`stamps error: ${e?.message || String(e)}`);
     }
-    return;
   }
+  return rewards - rewardCups(cart.lines);
+}
 
-  // Handle cancel: N|<idx> — restore drinks menu and allow future milk prompt
-  if (data.startsWith("N|")) {
-    const parts = data.split("|");
-    const idx = Number(parts[1]);
-    // Clear once-guard so milk choices can be shown again later for this message
-    milkPromptOnce.delete(keyFromParts(chatId, messageId, idx));
-    const menu = buildMainMenu();
-    await safeTg(() => tgEditMessageText(chatId, messageId, "Choose a drink:"));
-    await safeTg(() => tgEditReplyMarkup(chatId, messageId, menu));
-    await safeTg(() => tgAnswerCallbackQuery(cb.id, ""));
+/**
+ * The promotion a cart gets right now. Never fails the caller: no promotion on errors.
+ */
+async function promotionFor(cart: Cart): Promise<AppliedPromotion | null> {
+  try {
+    return applyPromotions(cart.lines, await loadPromotions(), {
+      code: cart.promoCode,
+    });
+  } catch (e: any) {
+    console.error(`promotions error: ${e?.message || String(e)}`);
+    return null;
+  }
+}
+
+/**
+ * The cart priced with its promotion: what the cart shows and what ✅ Confirm saves.
+ */
+async function priceFor(cart: Cart): Promise<CartPrice> {
+  return priceCart(cart.lines, await promotionFor(cart));
+}
+
+/**
+ * Edit the order message to ask the next modifier group for a drink, or, once
+ * every applicable group has been answered, open the quantity prompt.
+ */
+async function promptModifierOrQty(
+  chatId: number,
+  messageId: number,
+  userId: number,
+  drinkId: string,
+  picks: number[],
+  lang: Lang,
+) {
+  const drink = drinkById(drinkId);
+  if (!drink) return;
+  const groups = modifierGroupsFor(drink);
+
+  if (picks.length < groups.length) {
+    const group = groups[picks.length];
+    const choices = buildModifierChoice(drinkId, picks, lang);
+    await safeTg(() =>
+      tgEditMessageText(
+        chatId,
+        messageId,
+        escapeHtml(groupPrompt(group, lang)),
+      ),
+    );
+    await safeTg(() => tgEditReplyMarkup(chatId, messageId, choices));
     return;
   }
 
-  // Unknown callback
-  await safeTg(() => tgAnswerCallbackQuery(cb.id, ""));
+  const mods = resolveModifiers(drinkId, picks);
+  if (!mods) return;
+  await getSessionStore().set<QtyPad>(
+    padKeyFor(chatId, userId),
+    { messageId, drinkId, mods, buffer: "" },
+    QTY_PAD_TTL_MS,
+  );
+  await safeTg(() =>
+    tgEditMessageText(chatId, messageId, t(lang, "qtyPrompt")),
+  );
+  await safeTg(() =>
+    tgEditReplyMarkup(chatId, messageId, { inline_keyboard: [] }),
+  );
 }
 
 /* =============================
    Order persistence
 ============================= */
 
+/**
+ * Saves every cart line as an Orders row under one new order id.
+ * Returns the order id, or null if nothing was saved.
+ */
 async function tryAppendOrder(params: {
   chatId: number;
   user: TgUser;
   messageId: number;
   callbackId: string;
-  drinkIdx: number;
-  oat: boolean;
-  byoc: boolean;
-  qty: number;
-}): Promise<boolean> {
+  lines: CartLine[];
+  customer?: string;
+  customerId?: number;
+  orderId?: string; // e.g., the ticket id of an accepted customer order
+  price: CartPrice; // the lines priced as shown, with any promotion
+}): Promise<string | null> {
   try {
-    const drink = DRINKS[params.drinkIdx];
-    if (!drink) throw new Error("Invalid drink index");
+    if (!params.lines.length) throw new Error("Empty cart");
 
     const username = params.user.username ? `@${params.user.username}` : "";
     const fullName = [params.user.first_name, params.user.last_name]
       .filter(Boolean)
       .join(" ");
+    const orderId = params.orderId || newOrderId();
+    const timestamp = nowIso();
+
+    const promo = params.price.promotion;
+    const rows: OrderRow[] = params.lines.map((line, i) => {
+      const price = params.price.lines[i];
+      return {
+        timestamp,
+        chatId: params.chatId,
+        userId: params.user.id,
+        username,
+        fullName,
+        drink: describeLine({ ...line, qty: 1 }),
+        price: fromCents(price.unit),
+        qty: line.qty,
+        total: fromCents(price.total),
+        oatMilk: line.mods.some((m) => /\boat\b/i.test(m.option)),
+        messageId: params.messageId,
+        callbackId: params.callbackId,
+        orderId,
+        modifiers: modifiersText(line.mods),
+        customer: params.customer || "",
+        customerId: params.customerId || 0,
+        status: "Queued",
+        voidedBy: "",
+        voidedAt: "",
+        drinkId: line.drinkId,
+        promotion: promo ? promotionLabel(promo) : "",
+        discount: fromCents(price.discount),
+        reward: !!line.reward,
+      };
+    });
 
-    const priceFinal = Number(
-      (
-        drink.price +
-        (params.oat ? OAT_UPCHARGE : 0) -
-        (params.byoc ? BYOC_DISCOUNT : 0)
-      ).toFixed(2),
+    await getOrderStore().append(rows);
+    await getSessionStore().set<LastOrder>(
+      lastOrderKeyFor(params.chatId, params.user.id),
+      {
+        orderId,
+        callbackId: params.callbackId,
+        lines: params.lines.map((l) => ({
+          name: l.name,
+          mods: l.mods,
+          qty: l.qty,
+        })),
+      },
+      LAST_ORDER_TTL_MS,
     );
 
-    let drinkLabel = params.oat ? `${drink.name} (oat)` : drink.name;
-    if (params.byoc) drinkLabel += " (byoc)";
+    return orderId;
+  } catch (err: any) {
+    console.error(`appendOrder error: ${err?.message || String(err)}`);
+    try {
+      await tgNotifyAdmin(
+        `⚠ Order store error: ${escapeHtml(err?.message || String(err))}`,
+      );
+    } catch {}
+    return null;
+  }
+}
 
-    const row: OrderRow = {
-      timestamp: nowIso(),
-      chatId: params.chatId,
-      userId: params.user.id,
-      username,
-      fullName,
-      drink: drinkLabel,
-      price: priceFinal,
-      qty: params.qty,
-      total: Number((priceFinal * params.qty).toFixed(2)),
-      oatMilk: params.oat,
-      messageId: params.messageId,
-      callbackId: params.callbackId,
-    };
+/* =============================
+   Customer orders (/order)
+============================= */
 
-    if (!SHEET_ID) throw new Error("SHEET_ID is not set");
+/**
+ * Staff-chat text for a customer's order request.
+ * The customer's names are as they typed them: cartText escapes them with the rest of
+ * the Customer line (t() escapes every parameter), so they're not escaped here too.
+ */
+function ticketText(
+  pending: PendingOrder,
+  heading: string,
+  lang: Lang,
+): string {
+  const c = pending.customer;
+  const name = [c.first_name, c.last_name].filter(Boolean).join(" ");
+  const who = c.username ? `@${c.username}${name ? ` (${name})` : ""}` : name;
+  return cartText(
+    { messageId: 0, lines: pending.lines, customer: who || String(c.id) },
+    heading,
+    priceCart(pending.lines, pending.promo),
+    lang,
+  );
+}
 
-    const auth = await getSheetsAuth();
-    await ensureSheet(auth, SHEET_ID, "Orders");
-    const appendedRow = await appendOrderAndReturnRow(
-      auth,
-      SHEET_ID,
-      "Orders",
-      row,
+/**
+ * Send a customer's confirmed cart to the staff chat as a pending ticket.
+ */
+async function submitSelfOrder(
+  cb: TgCallbackQuery,
+  messageId: number,
+  cart: Cart,
+  lang: Lang,
+) {
+  const sessions = getSessionStore();
+  const chatId = cb.message!.chat.id;
+  if (!STAFF_CHAT_ID) {
+    await safeTg(() =>
+      tgAnswerCallbackQuery(cb.id, t(lang, "orderingUnavailableShort")),
     );
-    if (appendedRow > 0) {
-      const key = keyFromParts(params.chatId, params.user.id);
-      lastRowByChat.set(key, appendedRow);
-      lastOrderDetailsByChat.set(key, {
-        drinkName: drink.name,
-        oatMilk: params.oat,
-        byoc: params.byoc,
-        qty: params.qty,
-      });
+    return;
+  }
+  const openKey = keyFromParts("ticket-open", cb.from.id);
+  const open = await sessions.get<string>(openKey);
+  if (
+    open &&
+    (await sessions.get<PendingOrder>(keyFromParts("ticket", open)))
+  ) {
+    await safeTg(() =>
+      tgAnswerCallbackQuery(cb.id, t(lang, "orderWaiting"), {
+        show_alert: true,
+      }),
+    );
+    return;
+  }
+
+  const pending: PendingOrder = {
+    ticketId: newOrderId(),
+    customer: cb.from,
+    chatId,
+    lines: cart.lines,
+    promo: await promotionFor(cart),
+    lang,
+  };
+  // The staff chat is a group: its copy is in the shop's language
+  const staffLang = shopLang();
+  const sent = await safeTg(() =>
+    tgSendMessage(
+      STAFF_CHAT_ID,
+      ticketText(
+        pending,
+        t(staffLang, "ticketNew", { ticketId: pending.ticketId }),
+        staffLang,
+      ),
+      buildTicketKeyboard(pending.ticketId, staffLang),
+      { disable_notification: false },
+    ),
+  );
+  if (!sent) {
+    await safeTg(() => tgAnswerCallbackQuery(cb.id, t(lang, "sendFailed")));
+    return;
+  }
+
+  await sessions.set<PendingOrder>(
+    keyFromParts("ticket", pending.ticketId),
+    pending,
+    TICKET_TTL_MS,
+  );
+  await sessions.set<string>(openKey, pending.ticketId, TICKET_TTL_MS);
+  await sessions.delete(cartKeyFor(chatId, cb.from.id));
+  await safeTg(() =>
+    tgEditMessageText(
+      chatId,
+      messageId,
+      cartText(
+        cart,
+        t(lang, "orderSent", { ticketId: pending.ticketId }),
+        priceCart(cart.lines, pending.promo),
+        lang,
+      ),
+    ),
+  );
+  await safeTg(() =>
+    tgEditReplyMarkup(chatId, messageId, { inline_keyboard: [] }),
+  );
+  await safeTg(() => tgAnswerCallbackQuery(cb.id, ""));
+}
+
+/**
+ * Accept (save to the Orders sheet) or reject a pending customer order,
+ * then tell the customer in their private chat.
+ */
+async function handleTicket(
+  cb: TgCallbackQuery,
+  messageId: number,
+  ticketId: string,
+  accept: boolean,
+  lang: Lang,
+) {
+  const sessions = getSessionStore();
+  const chatId = cb.message!.chat.id;
+  const ticketKey = keyFromParts("ticket", ticketId);
+  const pending = await sessions.get<PendingOrder>(ticketKey);
+  // Two baristas tapping at once: only the first one handles it
+  const doneKey = keyFromParts("ticket-done", ticketId);
+  if (!pending || !(await sessions.claim(doneKey, TICKET_TTL_MS))) {
+    await safeTg(() => tgAnswerCallbackQuery(cb.id, t(lang, "ticketHandled")));
+    // Whoever handled it already replaced the buttons (with the status ones, if accepted);
+    // only a ticket that expired unanswered still shows Accept / Reject
+    if (!pending && (await sessions.get(doneKey)) === undefined) {
+      await safeTg(() =>
+        tgEditReplyMarkup(chatId, messageId, { inline_keyboard: [] }),
+      );
     }
+    return;
+  }
 
-    return true;
-  } catch (err: any) {
-    console.error(`appendOrder error: ${err?.message || String(err)}`);
-    try {
-      await tgNotifyAdmin(`⚠ Sheets error: ${err?.message || String(err)}`);
-    } catch {}
-    return false;
+  const by = staffLabel(cb.from);
+  if (accept) {
+    const orderId = await tryAppendOrder({
+      chatId,
+      user: cb.from,
+      messageId,
+      callbackId: cb.id,
+      lines: pending.lines,
+      customer: normalizeUsername(pending.customer.username || ""),
+      customerId: pending.customer.id,
+      orderId: pending.ticketId,
+      price: priceCart(pending.lines, pending.promo),
+    });
+    if (!orderId) {
+      // Let someone try again
+      await sessions.delete(doneKey);
+      await safeTg(() => tgAnswerCallbackQuery(cb.id, t(lang, "couldntSave")));
+      return;
+    }
+  }
+
+  await sessions.delete(ticketKey);
+  await sessions.delete(keyFromParts("ticket-open", pending.customer.id));
+  const customer = normalizeUsername(pending.customer.username || "");
+  // An accepted request becomes the order's status ticket
+  await safeTg(() =>
+    tgEditMessageText(
+      chatId,
+      messageId,
+      accept
+        ? withStatusLine(
+            ticketText(
+              pending,
+              t(lang, "ticketAccepted", { ticketId, by }),
+              lang,
+            ),
+            "Queued",
+            lang,
+          )
+        : ticketText(
+            pending,
+            t(lang, "ticketRejected", { ticketId, by }),
+            lang,
+          ),
+    ),
+  );
+  await safeTg(() =>
+    tgEditReplyMarkup(
+      chatId,
+      messageId,
+      accept
+        ? buildStatusKeyboard(ticketId, "Queued", !!customer, lang)
+        : { inline_keyboard: [] },
+    ),
+  );
+  await safeTg(() => tgAnswerCallbackQuery(cb.id, ""));
+  const customerLang = pending.lang || (await langOf(pending.customer.id));
+  await safeTg(() =>
+    tgSendMessage(
+      pending.chatId,
+      t(customerLang, accept ? "orderAccepted" : "orderRejected", {
+        ticketId,
+      }),
+      undefined,
+      { disable_notification: false },
+    ),
+  );
+
+  if (accept) {
+    await consumeStockFor(pending.lines);
+    if (customer) await maybeRemindBalance(customer, pending.customer.id);
   }
 }
 
 /* =============================
-   Append + row-number helpers (for /undo)
+   Order status
 ============================= */
 
-function parseAppendedRowNumberFromRange(updatedRange?: string): number {
-  if (!updatedRange) return -1;
-  const m = updatedRange.match(/![A-Z]+(\d+):[A-Z]+(\d+)/i);
-  if (m && m[2]) return parseInt(m[2], 10);
-  const nums = updatedRange.match(/(\d+)/g);
-  if (nums && nums.length) return parseInt(nums[nums.length - 1], 10);
-  return -1;
+/**
+ * Replace the "Status: ..." line of a ticket message (in any language), or add one at the end.
+ */
+function withStatusLine(text: string, status: OrderStatus, lang: Lang): string {
+  const line = t(lang, "statusLine", { status: statusLabel(status, lang) });
+  const prefixes = (Object.keys(LANGUAGES) as Lang[]).map((l) =>
+    t(l, "statusLine", { status: "" }).replace(/[.*+?^${}()|[\]\\]/g, "\\$&"),
+  );
+  const re = new RegExp(`^(?:${prefixes.join("|")}).*$`, "m");
+  if (re.test(text)) return text.replace(re, line);
+  return `${text}\n${line}`;
 }
 
-async function appendOrderAndReturnRow(
-  auth: any,
-  spreadsheetId: string,
-  title: string,
-  row: OrderRow,
-): Promise<number> {
-  const res = await auth.sheets.spreadsheets.values.append(
-    {
-      spreadsheetId,
-      range: `${title}!A1:L1`,
-      valueInputOption: "RAW",
-      requestBody: {
-        values: [
-          [
-            row.timestamp,
-            row.chatId,
-            row.userId,
-            row.username,
-            row.fullName,
-            row.drink,
-            row.price,
-            row.qty,
-            row.total,
-            row.oatMilk,
-            row.messageId,
-            row.callbackId,
-          ],
-        ],
-      },
-    },
-    { timeout: 8000 },
-  );
-  const updatedRange =
-    res && res.data && res.data.updates && res.data.updates.updatedRange;
-  return parseAppendedRowNumberFromRange(updatedRange as string | undefined);
+/**
+ * S| tap on an order ticket: record the next status on the order's rows,
+ * redraw the ticket and tell the customer when their order is ready.
+ */
+async function handleStatus(
+  cb: TgCallbackQuery,
+  messageId: number,
+  orderId: string,
+  code: string,
+  lang: Lang,
+) {
+  const chatId = cb.message!.chat.id;
+  try {
+    const store = getOrderStore();
+    const rows = await store.findByOrderId(orderId);
+    if (!rows.length) {
+      await safeTg(() =>
+        tgAnswerCallbackQuery(cb.id, t(lang, "orderNotFound")),
+      );
+      return;
+    }
+    if (rows.every(isVoided)) {
+      await safeTg(() => tgAnswerCallbackQuery(cb.id, t(lang, "orderVoided")));
+      await safeTg(() =>
+        tgEditReplyMarkup(chatId, messageId, { inline_keyboard: [] }),
+      );
+      return;
+    }
+
+    const active = rows.filter((r) => !isVoided(r));
+    const current = active[0].status;
+    const next = statusStep(current, code);
+    const customer = active[0].customer;
+    const paid =
+      !customer ||
+      (await getPaymentStore().list()).some((p) => p.orderId === orderId);
+    if (!next) {
+      // Someone else already moved it on: show where it is now
+      const status = statusName(current, lang).toLowerCase();
+      await safeTg(() =>
+        tgAnswerCallbackQuery(cb.id, tPlain(lang, "alreadyStatus", { status })),
+      );
+      await safeTg(() =>
+        tgEditReplyMarkup(
+          chatId,
+          messageId,
+          buildStatusKeyboard(orderId, current, !paid, lang),
+        ),
+      );
+      return;
+    }
+
+    await store.setStatus({ orderId }, next);
+    if (cb.message?.text) {
+      // Telegram hands back the text without its markup: escape it to send it again
+      const text = withStatusLine(escapeHtml(cb.message.text), next, lang);
+      await safeTg(() => tgEditMessageText(chatId, messageId, text));
+    }
+    await safeTg(() =>
+      tgEditReplyMarkup(
+        chatId,
+        messageId,
+        buildStatusKeyboard(orderId, next, !paid, lang),
+      ),
+    );
+    await safeTg(() => tgAnswerCallbackQuery(cb.id, statusLabel(next, lang)));
+
+    if (next === "Ready" && (active[0].customerId || customer)) {
+      const userId =
+        active[0].customerId || (await findCustomer(customer))?.userId;
+      if (userId) {
+        const customerLang = await langOf(userId);
+        await safeTg(() =>
+          tgSendMessage(
+            userId,
+            t(customerLang, "orderReady", { orderId }),
+            undefined,
+            { disable_notification: false },
+          ),
+        );
+      }
+    }
+  } catch (e: any) {
+    console.error(`order status error: ${e?.message || String(e)}`);
+    await safeTg(() =>
+      tgAnswerCallbackQuery(cb.id, t(lang, "couldntSaveShort")),
+    );
+  }
+}
+
+/* =============================
+   Inventory
+============================= */
+
+/**
+ * Take a confirmed order's ingredients out of stock and alert the admin chat
+ * about anything that just fell below its reorder level. Never fails the order.
+ */
+async function consumeStockFor(lines: CartLine[]) {
+  try {
+    const low = await consumeStock(lines.map(stockLineFromCart));
+    if (low.length) await tgNotifyAdmin(lowStockText(low));
+  } catch (e: any) {
+    console.error(`inventory error: ${e?.message || String(e)}`);
+  }
+}
+
+/**
+ * Put the ingredients of voided order rows back into stock.
+ */
+async function restoreStockFor(rows: OrderRow[]) {
+  if (!rows.length) return;
+  try {
+    await restoreStock(rows);
+  } catch (e: any) {
+    console.error(`inventory error: ${e?.message || String(e)}`);
+  }
+}
+
+/* =============================
+   Payments and balances
+============================= */
+
+/**
+ * Saves a payment, replies in the staff chat with the new balance and
+ * tells the customer (if they've talked to the bot). Returns false if nothing was saved.
+ */
+async function recordPayment(params: {
+  chatId: number;
+  recordedBy?: TgUser;
+  customer: string;
+  customerId?: number;
+  amount: number;
+  orderId: string;
+  note: string;
+  lang: Lang; // for the staff reply
+}): Promise<boolean> {
+  try {
+    const known = params.customerId
+      ? null
+      : await findCustomer(params.customer);
+    const customerId = params.customerId || known?.userId || 0;
+    await getPaymentStore().append({
+      timestamp: nowIso(),
+      customerId,
+      customer: params.customer,
+      amount: params.amount,
+      orderId: params.orderId,
+      recordedBy: staffLabel(params.recordedBy),
+      note: params.note,
+    });
+    const bal = await customerBalance({
+      userId: customerId || undefined,
+      username: params.customer,
+    });
+    await safeTg(() =>
+      tgSendMessage(
+        params.chatId,
+        t(params.lang, "paymentRecorded", {
+          amount: fmtMoney(params.amount),
+          customer: params.customer,
+          balance: fmtMoney(bal.balance),
+        }),
+      ),
+    );
+    if (customerId && customerId !== params.chatId) {
+      const customerLang = await langOf(customerId);
+      await safeTg(() =>
+        tgSendMessage(
+          customerId,
+          t(customerLang, "paymentThanks", {
+            amount: fmtMoney(params.amount),
+            balance: fmtMoney(bal.balance),
+          }),
+        ),
+      );
+    }
+    return true;
+  } catch (err: any) {
+    console.error(`payment error: ${err?.message || String(err)}`);
+    try {
+      await tgNotifyAdmin(
+        `⚠ Payment error: ${escapeHtml(err?.message || String(err))}`,
+      );
+    } catch {}
+    return false;
+  }
+}
+
+/**
+ * Message a customer whose balance is over BALANCE_REMINDER_THRESHOLD,
+ * at most once a day. Needs their user id (they must have talked to the bot).
+ */
+async function maybeRemindBalance(customer: string, customerId?: number) {
+  try {
+    if (!(BALANCE_REMINDER_THRESHOLD > 0)) return;
+    const userId = customerId || (await findCustomer(customer))?.userId;
+    if (!userId) return;
+    const bal = await customerBalance({ userId, username: customer });
+    if (bal.balance <= BALANCE_REMINDER_THRESHOLD) return;
+    const first = await getSessionStore().claim(
+      keyFromParts("remind", userId, nowIso().slice(0, 10)),
+      REMINDER_TTL_MS,
+    );
+    if (!first) return;
+    const lang = await langOf(userId);
+    const payLine = PAY_URL ? `\n${t(lang, "payHere", { url: PAY_URL })}` : "";
+    await safeTg(() =>
+      tgSendMessage(
+        userId,
+        t(lang, "balanceReminder", { amount: fmtMoney(bal.balance) }) + payLine,
+      ),
+    );
+  } catch (e: any) {
+    console.error(`balance reminder error: ${e?.message || String(e)}`);
+  }
 }
 
 /* =============================
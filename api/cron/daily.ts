@@ -0,0 +1,120 @@
+/**
+ * End-of-day sales summary, triggered by Vercel Cron at closing time.
+ * - Route: GET /api/cron/daily (schedule in vercel.json, in UTC: 13:00 UTC = 21:00 in the default Asia/Singapore)
+ * - Aggregates the day's Orders rows and posts the summary to ADMIN_CHAT_ID
+ * - The day is today in the shop timezone when the run is at or after SUMMARY_CUTOFF_HOUR
+ *   local time, otherwise yesterday: the schedule is in UTC, so for a shop west of UTC it
+ *   may fire in the local morning, and then the last full day is the one to send
+ * - Runs at most once per shop-local day; repeat calls answer { sent: false }.
+ *   That only holds across instances with a shared SESSION_STORE (Redis): with the
+ *   memory backend each instance has its own marker, so a warning is logged and returned.
+ *
+ * Environment variables:
+ * - CRON_SECRET (required): Vercel Cron sends it as "Authorization: Bearer <secret>"
+ * - ADMIN_CHAT_ID (required): where the summary is posted
+ * - SESSION_STORE / REDIS_URL: where the once-per-day marker lives (use Redis on Vercel)
+ * - SHOP_TIMEZONE / SHOP_CURRENCY / SHOP_LOCALE (optional; a Settings tab overrides them)
+ * - SUMMARY_CUTOFF_HOUR (optional, default 18): local hour (0-23) from which a run summarizes today
+ *
+ * Query (optional):
+ * - date=YYYY-MM-DD to summarize a specific day (e.g., one missed during an outage)
+ */
+
+import {
+  tgNotifyAdmin,
+  escapeHtml,
+  verifyBearerToken,
+} from "../../lib/telegram";
+import { getSessionStore, sessionStoreKind } from "../../lib/session";
+import { localDateKey, isDateKey, nowIso, addDays } from "../../lib/time";
+import { parseReportRange, loadSummary, summaryText } from "../../lib/report";
+import { keyFromParts } from "../../lib/idempotency";
+import { loadSettings } from "../../lib/config";
+
+const CRON_SECRET = (globalThis as any)?.process?.env?.CRON_SECRET || "";
+const ADMIN_CHAT_ID = (globalThis as any)?.process?.env?.ADMIN_CHAT_ID || "";
+const CUTOFF_RAW = Number(
+  (globalThis as any)?.process?.env?.SUMMARY_CUTOFF_HOUR ?? 18,
+);
+const SUMMARY_CUTOFF_HOUR =
+  Number.isInteger(CUTOFF_RAW) && CUTOFF_RAW >= 0 && CUTOFF_RAW <= 23
+    ? CUTOFF_RAW
+    : 18;
+
+// Keep the marker past midnight so a late retry of yesterday's run is still caught
+const SENT_MARKER_TTL_MS = 36 * 60 * 60 * 1000;
+
+/**
+ * Today once the shop has closed (SUMMARY_CUTOFF_HOUR), else the last full day.
+ */
+function summaryDate(now: Date): string {
+  const today = localDateKey(now);
+  const hour = Number(nowIso(now).slice(11, 13));
+  return hour >= SUMMARY_CUTOFF_HOUR ? today : addDays(today, -1);
+}
+
+function send(res: any, status: number, body: Record<string, unknown>) {
+  res.statusCode = status;
+  res.setHeader("Content-Type", "application/json; charset=utf-8");
+  res.end(JSON.stringify(body));
+}
+
+export default async function handler(req: any, res: any) {
+  if (req.method !== "GET" && req.method !== "POST") {
+    send(res, 405, { ok: false, error: "method not allowed" });
+    return;
+  }
+
+  if (!verifyBearerToken(req.headers, CRON_SECRET)) {
+    send(res, 401, { ok: false, error: "unauthorized" });
+    return;
+  }
+  if (!ADMIN_CHAT_ID) {
+    send(res, 500, { ok: false, error: "ADMIN_CHAT_ID is not set" });
+    return;
+  }
+
+  await loadSettings();
+  const url = new URL(req.url || "/", "http://localhost");
+  const date = url.searchParams.get("date") || summaryDate(new Date());
+  if (!isDateKey(date)) {
+    send(res, 400, { ok: false, error: "date must be YYYY-MM-DD" });
+    return;
+  }
+
+  const sessions = getSessionStore();
+  const warning =
+    sessionStoreKind() === "memory"
+      ? "SESSION_STORE is memory: the once-per-day marker isn't shared, so a second instance may send the summary again (set REDIS_URL)"
+      : undefined;
+  if (warning) console.warn(`cron daily: ${warning}`);
+  const markerKey = keyFromParts("cron", "daily", date);
+  let claimed = false;
+  try {
+    claimed = await sessions.claim(markerKey, SENT_MARKER_TTL_MS);
+    if (!claimed) {
+      send(res, 200, { ok: true, date, sent: false, warning });
+      return;
+    }
+
+    const range = parseReportRange(date);
+    if (!range) throw new Error(`bad date: ${date}`);
+    const summary = await loadSummary(range);
+    await tgNotifyAdmin(summaryText(summary, date, "Daily summary"));
+    send(res, 200, { ok: true, date, sent: true, warning });
+  } catch (err: any) {
+    console.error(`cron daily error: ${err?.message || String(err)}`);
+    // Release the marker so the next retry can send
+    if (claimed) {
+      try {
+        await sessions.delete(markerKey);
+      } catch {}
+    }
+    try {
+      await tgNotifyAdmin(
+        `⚠ Daily summary failed: ${escapeHtml(err?.message || String(err))}`,
+      );
+    } catch {}
+    send(res, 500, { ok: false, error: "summary failed" });
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * One-call deployment setup: registers the webhook and the default command list.
+ * - Route: POST /api/setup → setWebhook (secret + allowed_updates), setMyCommands, getWebhookInfo
+ * - Route: GET /api/setup → getWebhookInfo only (check delivery errors without changing anything)
+ *
+ * Environment variables:
+ * - SETUP_SECRET (required): callers send it as "Authorization: Bearer <secret>"
+ * - BOT_TOKEN (required)
+ * - TELEGRAM_WEBHOOK_SECRET (recommended): passed to setWebhook and checked by /api/bot
+ * - WEBHOOK_URL (optional): defaults to https://<this host>/api/bot
+ *
+ * Query (optional, POST):
+ * - url=https://... to override the webhook URL
+ * - drop_pending=1 to discard updates queued while the webhook was down
+ */
+
+import {
+  tgSetWebhook,
+  tgGetWebhookInfo,
+  tgSetMyCommands,
+  webhookSecret,
+  verifyBearerToken,
+} from "../lib/telegram";
+import { DEFAULT_COMMANDS, ALLOWED_UPDATES } from "../lib/commands";
+
+const SETUP_SECRET = (globalThis as any)?.process?.env?.SETUP_SECRET || "";
+const WEBHOOK_URL = (globalThis as any)?.process?.env?.WEBHOOK_URL || "";
+
+function send(res: any, status: number, body: Record<string, unknown>) {
+  res.statusCode = status;
+  res.setHeader("Content-Type", "application/json; charset=utf-8");
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * The public URL of /api/bot on this deployment, from the proxy headers Vercel sets.
+ */
+function defaultWebhookUrl(req: any): string {
+  const headers = req.headers || {};
+  const host = String(headers["x-forwarded-host"] || headers.host || "");
+  if (!host) return "";
+  return `https://${host.split(",")[0].trim()}/api/bot`;
+}
+
+export default async function handler(req: any, res: any) {
+  if (req.method !== "GET" && req.method !== "POST") {
+    send(res, 405, { ok: false, error: "method not allowed" });
+    return;
+  }
+
+  if (!verifyBearerToken(req.headers, SETUP_SECRET)) {
+    send(res, 401, { ok: false, error: "unauthorized" });
+    return;
+  }
+
+  try {
+    if (req.method === "GET") {
+      send(res, 200, { ok: true, webhook: await tgGetWebhookInfo() });
+      return;
+    }
+
+    const query = new URL(req.url || "/", "http://localhost").searchParams;
+    const url = query.get("url") || WEBHOOK_URL || defaultWebhookUrl(req);
+    if (!/^https:\/\//.test(url)) {
+      send(res, 400, { ok: false, error: "webhook url must be https" });
+      return;
+    }
+
+    const secret = webhookSecret();
+    await tgSetWebhook(url, {
+      secret_token: secret || undefined,
+      allowed_updates: ALLOWED_UPDATES,
+      drop_pending_updates: query.get("drop_pending") === "1",
+    });
+    await tgSetMyCommands(DEFAULT_COMMANDS, { type: "default" });
+    const webhook = await tgGetWebhookInfo();
+
+    send(res, 200, {
+      ok: true,
+      url,
+      secret: !!secret,
+      commands: DEFAULT_COMMANDS.map((c) => c.command),
+      webhook,
+    });
+  } catch (err: any) {
+    console.error(`setup error: ${err?.message || String(err)}`);
+    send(res, 500, { ok: false, error: err?.message || String(err) });
+  }
+}
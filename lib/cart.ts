@@ -0,0 +1,271 @@
+/**
+ * Cart helpers for logging several drinks under one order.
+ *
+ * A barista adds lines (drink → each modifier group → quantity) to a cart, sees the
+ * running total after each line, then confirms once. Every line is saved as its
+ * own Orders row sharing one OrderId. Prices come from lib/pricing.ts.
+ *
+ * Exports:
+ * - CartLine / Cart types (JSON-serializable for the SessionStore)
+ * - modifierLabels(mods): non-default option names, e.g. ["Oat milk", "BYOC"]
+ * - describeLine(line): "Latte (Oat milk, BYOC) × 2"
+ * - modifiersText(mods): every pick for the Orders sheet, "Milk: Oat milk; Cup: BYOC"
+ * - lineText(line, price?, lang?): one line with its price breakdown
+ * - cartText(cart, heading, price?, lang?): heading, one bullet per line, the promotion, then the total
+ * - baseDrinkName(label, modifiers?): "Latte" from an Orders "Drink" label like "Latte (Oat milk)"
+ * - cartLineFromOrder(row): rebuild a line from a saved Orders row at today's prices (for repeats)
+ * - repriceLine(line): the same line priced from the current menu, or null if it's no longer offered
+ * - redeemReward(cart): make one cup of the last line a free stamp-card drink
+ */
+
+import {
+  fmtMoney,
+  DRINKS,
+  drinkById,
+  drinkName,
+  optionLabel,
+  modifierGroupsFor,
+  resolveModifiers,
+  type SelectedModifier,
+} from "./menu";
+import { type OrderRow } from "./sheets";
+import { promotionLabel } from "./promotions";
+import {
+  priceLine,
+  priceCart,
+  fromCents,
+  type LinePrice,
+  type CartPrice,
+} from "./pricing";
+import { t, type Lang } from "./i18n";
+import { escapeHtml } from "./telegram";
+
+/**
+ * One drink line. Name, base price and modifier deltas are captured when the
+ * line is added, so a menu reload mid-order doesn't change what was rung up.
+ */
+export type CartLine = {
+  drinkId: string;
+  name: string;
+  base: number;
+  mods: SelectedModifier[];
+  qty: number;
+  reward?: boolean; // a free stamp-card drink: priced at zero
+};
+
+export type Cart = {
+  messageId: number; // the /log message being edited
+  lines: CartLine[];
+  customer?: string; // "@username" the order is billed to
+  customerId?: number; // their user id, if they've talked to the bot
+  selfOrder?: boolean; // built by the customer via /order; confirming sends it for approval
+  promoCode?: string; // entered at checkout, see lib/promotions.ts
+  shownTotal?: number; // the total on the cart message, so ✅ Confirm can tell if it moved since
+};
+
+/**
+ * Names of the chosen options worth mentioning (defaults are left out).
+ */
+export function modifierLabels(mods: SelectedModifier[]): string[] {
+  return mods.filter((m) => !m.isDefault).map((m) => m.option);
+}
+
+/**
+ * Every chosen option (defaults included) as "Group: Option" pairs.
+ */
+export function modifiersText(mods: SelectedModifier[]): string {
+  return mods.map((m) => `${m.group}: ${m.option}`).join("; ");
+}
+
+/**
+ * Drink name with its modifiers and quantity, no prices.
+ */
+export function describeLine(line: {
+  name: string;
+  mods: SelectedModifier[];
+  qty: number;
+}): string {
+  const labels = modifierLabels(line.mods);
+  let label = line.name;
+  if (labels.length) label += ` (${labels.join(", ")})`;
+  if (line.qty > 1) label += ` × ${line.qty}`;
+  return label;
+}
+
+/**
+ * Drink with its price breakdown, e.g.
+ * "Latte (Oat milk) — $3.00 + $0.50 = $3.50 × 2 = $7.00"
+ * Names are shown in `lang` when the menu has them translated.
+ */
+export function lineText(
+  line: CartLine,
+  price: LinePrice = priceLine(line),
+  lang: Lang = "en",
+): string {
+  const drink = drinkById(line.drinkId);
+  const labels = line.mods
+    .filter((m) => !m.isDefault)
+    .map((m) => optionLabel(m, lang));
+  let label = drink ? drinkName(drink, lang) : line.name;
+  if (labels.length) label += ` (${labels.join(", ")})`;
+  label = escapeHtml(label);
+  if (price.reward) return `${label} — ${t(lang, "free")}`;
+  const money = (c: number) => fmtMoney(fromCents(c));
+  let text = "";
+  if (price.modifiers.length) {
+    text += money(price.base);
+    for (const m of price.modifiers) {
+      text += m.delta < 0 ? ` − ${money(-m.delta)}` : ` + ${money(m.delta)}`;
+    }
+    text += ` = ${money(price.unit)}`;
+  } else {
+    text = money(price.unit);
+  }
+  if (price.qty > 1) text += ` × ${price.qty} = ${money(price.gross)}`;
+  return `${label} — ${text}`;
+}
+
+/**
+ * Multi-line cart summary:
+ *   <heading>
+ *   • <line>
+ *   🏷 Happy hour: −$1.20   (only with a promotion)
+ *   Total: $X.XX
+ *   Customer: @username   (only when tagged)
+ * Pass the cart's price (with its promotion) to show exactly what will be saved.
+ */
+export function cartText(
+  cart: Cart,
+  heading: string,
+  price: CartPrice = priceCart(cart.lines),
+  lang: Lang = "en",
+): string {
+  const lines = cart.lines.map(
+    (l, i) => `• ${lineText(l, price.lines[i], lang)}`,
+  );
+  if (price.promotion) {
+    lines.push(
+      `🏷 ${escapeHtml(promotionLabel(price.promotion))}: −${fmtMoney(fromCents(price.discount))}`,
+    );
+  }
+  const out = [
+    heading,
+    ...lines,
+    t(lang, "total", { amount: fmtMoney(fromCents(price.total)) }),
+  ];
+  if (cart.customer) {
+    out.push(t(lang, "customer", { customer: cart.customer }));
+  }
+  return out.join("\n");
+}
+
+// What the first version of the bot appended to Drink labels: "Latte (oat) (byoc)"
+const LEGACY_LABELS = new Set(["oat", "byoc"]);
+
+/**
+ * Base drink name from an Orders "Drink" label. Drops only what the cart appends:
+ * the "(Oat milk, BYOC)" options listed in the row's Modifiers column, or legacy
+ * "(oat) (byoc)" labels on rows without one. Parentheses in the drink's own
+ * name ("Latte (Iced)") stay.
+ */
+export function baseDrinkName(label: string, modifiers = ""): string {
+  const options = new Set(
+    modifiers
+      .split(";")
+      .map((part) => part.split(":").slice(1).join(":").trim().toLowerCase())
+      .filter(Boolean),
+  );
+  let name = label.trim();
+  for (;;) {
+    const m = /\s*\(([^()]*)\)$/.exec(name);
+    if (!m) break;
+    const added = m[1]
+      .split(",")
+      .map((x) => x.trim().toLowerCase())
+      .every((x) => (modifiers ? options.has(x) : LEGACY_LABELS.has(x)));
+    if (!added) break;
+    name = name.slice(0, m.index).trim();
+    // The cart appends one group; legacy rows may have "(oat) (byoc)"
+    if (modifiers) break;
+  }
+  return name || label;
+}
+
+/**
+ * Rebuild a cart line from a saved Orders row, priced from the current menu.
+ * Picks come from the Modifiers column ("Milk: Oat milk; Cup: BYOC"); older rows
+ * without it fall back to the labels in the Drink name. Groups with no match
+ * use their default. Rows saved before drink ids existed are matched by name.
+ * Returns null if the drink is no longer on the menu.
+ */
+export function cartLineFromOrder(row: OrderRow): CartLine | null {
+  const name = baseDrinkName(row.drink, row.modifiers).toLowerCase();
+  const drink = row.drinkId
+    ? drinkById(row.drinkId)
+    : DRINKS.find((d) => d.name.toLowerCase() === name);
+  if (!drink) return null;
+
+  const saved = new Map<string, string>();
+  for (const part of (row.modifiers || "").split(";")) {
+    const [group, option] = part.split(":").map((x) => x.trim().toLowerCase());
+    if (group && option) saved.set(group, option);
+  }
+  const labels = (row.drink.match(/\(([^)]*)\)/g) || [])
+    .flatMap((m) => m.slice(1, -1).split(","))
+    .map((x) => x.trim().toLowerCase())
+    .filter(Boolean);
+
+  const picks = modifierGroupsFor(drink).map((g) => {
+    const want = saved.get(g.name.toLowerCase());
+    const i = g.options.findIndex((o) => {
+      const opt = o.name.toLowerCase();
+      if (want) return opt === want;
+      return labels.some((l) => opt === l || opt.startsWith(`${l} `));
+    });
+    return i < 0 ? 0 : i;
+  });
+  const mods = resolveModifiers(drink.id, picks);
+  if (!mods) return null;
+  return {
+    drinkId: drink.id,
+    name: drink.name,
+    base: drink.price,
+    mods,
+    qty: row.qty > 0 ? row.qty : 1,
+  };
+}
+
+/**
+ * A cart line with its base price and modifier deltas taken from the current
+ * menu. Null if the drink, or one of its chosen options, has been removed.
+ */
+export function repriceLine(line: CartLine): CartLine | null {
+  const drink = drinkById(line.drinkId);
+  if (!drink) return null;
+  const groups = modifierGroupsFor(drink);
+  const mods: SelectedModifier[] = [];
+  for (const m of line.mods) {
+    const group = groups.find((g) => g.name === m.group);
+    const option = group?.options.find((o) => o.name === m.option);
+    if (!option) return null;
+    mods.push({ ...m, delta: option.delta });
+  }
+  return { ...line, name: drink.name, base: drink.price, mods };
+}
+
+/**
+ * Turn one cup of the cart's last paid line into a free stamp-card drink (a
+ * separate zero-priced line). Returns false if there's no paid line to use.
+ */
+export function redeemReward(cart: Cart): boolean {
+  const i = cart.lines.map((l) => !l.reward).lastIndexOf(true);
+  if (i < 0) return false;
+  const line = cart.lines[i];
+  if (line.qty > 1) {
+    line.qty -= 1;
+    cart.lines.push({ ...line, qty: 1, reward: true });
+  } else {
+    line.reward = true;
+  }
+  return true;
+}
@@ -0,0 +1,65 @@
+/**
+ * Bot command lists and the update types the bot handles.
+ * Shared by the webhook handler (per-chat command scopes) and /api/setup.
+ *
+ * Exports:
+ * - DEFAULT_COMMANDS: shown to everyone
+ * - commandsForRole(role): the menu a staff member sees (role commands + defaults)
+ * - ALLOWED_UPDATES: passed to setWebhook so Telegram only sends what we handle
+ */
+
+import { type TgBotCommand } from "./telegram";
+import { type Role, hasRole } from "./staff";
+
+export const DEFAULT_COMMANDS: TgBotCommand[] = [
+  { command: "menu", description: "View menu" },
+  { command: "order", description: "Order drinks" },
+  { command: "pay", description: "Pay for drinks" },
+  { command: "balance", description: "Check what you owe" },
+  { command: "stamps", description: "Your stamp card" },
+  { command: "language", description: "Change the bot's language" },
+];
+
+// Each entry is shown to its role and every role above it
+const ROLE_COMMANDS: Array<{ role: Role; commands: TgBotCommand[] }> = [
+  {
+    role: "owner",
+    commands: [
+      { command: "grant", description: "Give staff a role: /grant @user role" },
+      { command: "revoke", description: "Remove a staff role: /revoke @user" },
+      { command: "reloadmenu", description: "Reload the menu from the sheet" },
+    ],
+  },
+  {
+    role: "barista",
+    commands: [
+      {
+        command: "log",
+        description: "Log an order (optionally /log @customer)",
+      },
+      { command: "paid", description: "Record a payment: /paid @user amount" },
+      { command: "undo", description: "Undo previous order" },
+      { command: "history", description: "Recent orders: void or repeat" },
+      { command: "soldout", description: "Hide a drink: /soldout <drink>" },
+      { command: "restock", description: "Put a drink back: /restock <drink>" },
+    ],
+  },
+  {
+    role: "viewer",
+    commands: [
+      {
+        command: "report",
+        description: "Sales report (today, week, or a date range)",
+      },
+    ],
+  },
+];
+
+export function commandsForRole(role: Role | null): TgBotCommand[] {
+  const extra = ROLE_COMMANDS.filter((r) => hasRole(role, r.role)).flatMap(
+    (r) => r.commands,
+  );
+  return [...extra, ...DEFAULT_COMMANDS];
+}
+
+export const ALLOWED_UPDATES = ["message", "callback_query"];
@@ -0,0 +1,216 @@
+/**
+ * Shop settings: timezone, currency, locale and language.
+ *
+ * Exports:
+ * - ShopConfig type
+ * - getConfig(): the settings in effect (synchronous; env values until loadSettings() has read the tab)
+ * - loadSettings(): re-read the Settings tab (at most every SETTINGS_TTL_MS per instance)
+ * - formatMoney(n): an amount in the shop's currency and locale
+ *
+ * Env:
+ * - SHOP_TIMEZONE: IANA zone name, e.g. "Europe/Berlin" (default Asia/Singapore)
+ * - SHOP_CURRENCY: an ISO 4217 code like "EUR", or a symbol like "$" placed before the amount (default "$")
+ * - SHOP_LOCALE: BCP 47 tag for number formatting, e.g. "de-DE" (default en-SG)
+ * - SHOP_LANGUAGE: the bot's language in group chats and for users whose own isn't known, e.g. "zh" (default en; see lib/i18n.ts)
+ *
+ * Sheet (optional; a header row is optional):
+ * - Settings!A:B — Key | Value, with keys Timezone, Currency, Locale and Language
+ *
+ * Notes:
+ * - A value in the Settings tab wins over the env; invalid values are logged and ignored.
+ * - No Settings tab (or no SHEET_ID) means the env values (or the defaults) apply.
+ */
+
+import { getSheetsAuth, SHEETS_TIMEOUT_MS } from "./sheets";
+
+const SHEET_ID = (globalThis as any)?.process?.env?.SHEET_ID || "";
+const SETTINGS_TTL_MS = 60 * 1000;
+
+export type ShopConfig = {
+  timezone: string; // IANA zone name
+  currency: string; // ISO 4217 code ("EUR") or a symbol ("$")
+  locale: string; // BCP 47 tag
+  language: string; // language code, e.g. "en"
+};
+
+const DEFAULTS: ShopConfig = {
+  timezone: "Asia/Singapore",
+  currency: "$",
+  locale: "en-SG",
+  language: "en",
+};
+
+function isTimezone(v: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: v });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isLocale(v: string): boolean {
+  try {
+    return Intl.NumberFormat.supportedLocalesOf([v]).length > 0;
+  } catch {
+    return false;
+  }
+}
+
+function isCurrencyCode(v: string): boolean {
+  if (!/^[A-Z]{3}$/.test(v)) return false;
+  try {
+    new Intl.NumberFormat("en", { style: "currency", currency: v });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Merge raw values over `base`, keeping base for blank or invalid ones.
+ * `source` names where the values came from, for the log.
+ */
+function merge(
+  base: ShopConfig,
+  raw: Partial<Record<keyof ShopConfig, string>>,
+  source: string,
+): ShopConfig {
+  const out = { ...base };
+  const bad: string[] = [];
+  const timezone = String(raw.timezone || "").trim();
+  if (timezone) {
+    if (isTimezone(timezone)) out.timezone = timezone;
+    else bad.push(`timezone “${timezone}”`);
+  }
+  const currency = String(raw.currency || "").trim();
+  if (currency) {
+    const code = currency.toUpperCase();
+    if (isCurrencyCode(code)) out.currency = code;
+    else if (!/^[A-Za-z]{3}$/.test(currency) && currency.length <= 4)
+      out.currency = currency;
+    else bad.push(`currency “${currency}”`);
+  }
+  const locale = String(raw.locale || "").trim();
+  if (locale) {
+    if (isLocale(locale)) out.locale = locale;
+    else bad.push(`locale “${locale}”`);
+  }
+  // Unsupported languages fall back to English in lib/i18n.ts
+  const language = String(raw.language || "")
+    .trim()
+    .toLowerCase();
+  if (language) {
+    if (/^[a-z]{2,3}$/.test(language)) out.language = language;
+    else bad.push(`language “${language}”`);
+  }
+  if (bad.length) console.error(`${source}: ignoring ${bad.join(", ")}`);
+  return out;
+}
+
+function fromEnv(): ShopConfig {
+  const env = (globalThis as any)?.process?.env || {};
+  return merge(
+    DEFAULTS,
+    {
+      timezone: env.SHOP_TIMEZONE,
+      currency: env.SHOP_CURRENCY,
+      locale: env.SHOP_LOCALE,
+      language: env.SHOP_LANGUAGE,
+    },
+    "env settings",
+  );
+}
+
+let __env: ShopConfig | null = null;
+let __config: ShopConfig | null = null;
+let __loadedAt = 0;
+let __loading: Promise<ShopConfig> | null = null;
+let __money: { key: string; format: (n: number) => string } | null = null;
+
+export function getConfig(): ShopConfig {
+  if (!__env) __env = fromEnv();
+  return __config || __env;
+}
+
+async function readSettings(): Promise<ShopConfig> {
+  const base = __env || (__env = fromEnv());
+  let values: any[][] = [];
+  try {
+    const auth = await getSheetsAuth();
+    const resp = await auth.sheets.spreadsheets.values.get(
+      {
+        spreadsheetId: SHEET_ID,
+        range: "Settings!A:B",
+        valueRenderOption: "UNFORMATTED_VALUE",
+      },
+      { timeout: SHEETS_TIMEOUT_MS },
+    );
+    values = (resp && resp.data && resp.data.values) || [];
+  } catch (e: any) {
+    // A missing tab just means the env settings apply
+    if (!/unable to parse range/i.test(e?.message || "")) {
+      console.error(`settings load error: ${e?.message || String(e)}`);
+      return getConfig();
+    }
+  }
+  const raw: Partial<Record<keyof ShopConfig, string>> = {};
+  for (const row of values) {
+    const key = String(row?.[0] ?? "")
+      .trim()
+      .toLowerCase();
+    if (
+      key === "timezone" ||
+      key === "currency" ||
+      key === "locale" ||
+      key === "language"
+    ) {
+      raw[key] = String(row?.[1] ?? "");
+    }
+  }
+  return merge(base, raw, "Settings tab");
+}
+
+/**
+ * Refresh the settings from the Settings tab once they're older than
+ * SETTINGS_TTL_MS. Never throws: read errors keep the current settings.
+ */
+export async function loadSettings(): Promise<ShopConfig> {
+  if (!SHEET_ID) return getConfig();
+  if (__config && Date.now() - __loadedAt < SETTINGS_TTL_MS) return __config;
+  if (!__loading) {
+    __loading = readSettings()
+      .then((config) => {
+        __config = config;
+        __loadedAt = Date.now();
+        return config;
+      })
+      .finally(() => {
+        __loading = null;
+      });
+  }
+  return __loading;
+}
+
+/**
+ * "$3.50", "€3.50", or with a currency code the locale's own style ("3,50 €" for EUR in de-DE).
+ */
+export function formatMoney(n: number): string {
+  const { currency, locale } = getConfig();
+  const key = `${currency}|${locale}`;
+  if (!__money || __money.key !== key) {
+    let format: (n: number) => string;
+    if (/^[A-Z]{3}$/.test(currency)) {
+      const nf = new Intl.NumberFormat(locale, { style: "currency", currency });
+      format = (x) => nf.format(x);
+    } else {
+      const nf = new Intl.NumberFormat(locale, {
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2,
+      });
+      format = (x) => `${currency}${nf.format(x)}`;
+    }
+    __money = { key, format };
+  }
+  return __money.format(n);
+}
@@ -0,0 +1,82 @@
+/**
+ * Customer directory: maps @usernames to Telegram user ids.
+ *
+ * A bot can only message users who have talked to it, and baristas tag
+ * customers by @username. Whenever someone messages the bot we remember who
+ * they are, so orders tagged "@alice" can be tied to Alice's user id and she
+ * can be sent balance reminders and notifications.
+ *
+ * Exports:
+ * - Customer type
+ * - normalizeUsername(raw): "@alice" (lowercased, leading @ added) or "" if invalid
+ * - rememberCustomer(user): record a Telegram user (cached per instance)
+ * - findCustomer(username): Customer | null
+ * - sameCustomer(who, rowId, rowName): whether an Orders/Payments row belongs to a customer
+ *
+ * Notes:
+ * - A row matches a customer by user id when both sides have one, otherwise by @username.
+ * - Entries live in the SessionStore with a long TTL (refreshed when the user shows up again).
+ */
+
+import { getSessionStore } from "./session";
+import { LRUSet, keyFromParts } from "./idempotency";
+
+export type Customer = {
+  userId: number;
+  username: string; // "@alice"
+  fullName: string;
+};
+
+const CUSTOMER_TTL_MS = 365 * 24 * 60 * 60 * 1000;
+// Skip rewriting entries already stored by this instance recently
+const remembered = new LRUSet<string>(1000);
+
+/**
+ * Telegram usernames are 5-32 characters of letters, digits and underscores.
+ */
+export function normalizeUsername(raw: string): string {
+  const u = String(raw || "")
+    .trim()
+    .replace(/^@/, "")
+    .toLowerCase();
+  return /^[a-z0-9_]{5,32}$/.test(u) ? `@${u}` : "";
+}
+
+export async function rememberCustomer(user: {
+  id: number;
+  username?: string;
+  first_name?: string;
+  last_name?: string;
+}): Promise<void> {
+  const username = normalizeUsername(user.username || "");
+  if (!username || !user.id) return;
+  const fullName = [user.first_name, user.last_name].filter(Boolean).join(" ");
+  const seenKey = keyFromParts(username, user.id, fullName);
+  if (remembered.has(seenKey)) return;
+  await getSessionStore().set<Customer>(
+    keyFromParts("customer", username),
+    { userId: user.id, username, fullName },
+    CUSTOMER_TTL_MS,
+  );
+  remembered.add(seenKey);
+}
+
+export async function findCustomer(username: string): Promise<Customer | null> {
+  const u = normalizeUsername(username);
+  if (!u) return null;
+  const c = await getSessionStore().get<Customer>(keyFromParts("customer", u));
+  return c || null;
+}
+
+/**
+ * True if a row's CustomerId / Customer cells belong to `who`.
+ */
+export function sameCustomer(
+  who: { userId?: number; username?: string },
+  rowId: number,
+  rowName: string,
+): boolean {
+  if (who.userId && rowId) return who.userId === rowId;
+  const name = (who.username || "").toLowerCase();
+  return !!name && name === (rowName || "").toLowerCase();
+}
@@ -0,0 +1,120 @@
+/**
+ * Recent orders for /history, grouped so each confirmed cart is one entry.
+ *
+ * Exports:
+ * - HistoryEntry type
+ * - loadHistory({ chatId, userId?, limit }): newest first; userId narrows to one barista
+ * - historyText(entries, heading): numbered list for Telegram
+ * - refFromKey(key): the OrderRef behind an entry's callback key
+ *
+ * Notes:
+ * - Entries are keyed by OrderId; rows saved before OrderId existed use "c:<CallbackId>",
+ *   or "r:<row>:<fingerprint>" (their row number, plus rowFingerprint() so a row that
+ *   has since changed isn't mistaken for it) when they have no CallbackId either.
+ * - Voided entries stay in the list, marked as such; orders not yet collected show their status.
+ */
+
+import {
+  getOrderStore,
+  listAllOrders,
+  isVoided,
+  rowFingerprint,
+  type OrderRef,
+  type StoredOrder,
+} from "./orders";
+import { fmtMoney, statusLabel } from "./menu";
+import { sumMoney } from "./pricing";
+import { escapeHtml } from "./telegram";
+
+export type HistoryEntry = {
+  key: string; // OrderId, or "c:<CallbackId>"
+  timestamp: string;
+  staff: string;
+  customer: string;
+  rows: StoredOrder[];
+  total: number;
+  voided: boolean;
+};
+
+function entryKey(row: StoredOrder): string {
+  if (row.orderId) return row.orderId;
+  if (row.callbackId) return `c:${row.callbackId}`;
+  return `r:${row.row}:${rowFingerprint(row)}`;
+}
+
+export function refFromKey(key: string): OrderRef {
+  if (key.startsWith("c:")) return { callbackId: key.slice(2) };
+  if (key.startsWith("r:")) {
+    const [, row, fingerprint] = key.split(":");
+    return { row: Number(row), fingerprint };
+  }
+  return { orderId: key };
+}
+
+export async function loadHistory(params: {
+  chatId: number;
+  userId?: number;
+  limit: number;
+}): Promise<HistoryEntry[]> {
+  const rows = (await listAllOrders(getOrderStore())).filter(
+    (r) =>
+      r.chatId === params.chatId &&
+      (params.userId == null || r.userId === params.userId),
+  );
+
+  // Rows of one cart are appended together, so later rows mean later orders
+  const byKey = new Map<string, HistoryEntry>();
+  for (const row of rows) {
+    const key = entryKey(row);
+    const entry = byKey.get(key) || {
+      key,
+      timestamp: row.timestamp,
+      staff: row.username || row.fullName || String(row.userId),
+      customer: row.customer,
+      rows: [],
+      total: 0,
+      voided: true,
+    };
+    entry.rows.push(row);
+    entry.total = sumMoney([entry.total, row.total]);
+    entry.voided = entry.voided && isVoided(row);
+    byKey.delete(key);
+    byKey.set(key, entry);
+  }
+  return [...byKey.values()].reverse().slice(0, params.limit);
+}
+
+/**
+ * "10-19 14:02" from a "YYYY-MM-DDTHH:mm:ss+08:00" timestamp.
+ */
+function shortTime(timestamp: string): string {
+  const m = /^\d{4}-(\d{2}-\d{2})T(\d{2}:\d{2})/.exec(timestamp);
+  return m ? `${m[1]} ${m[2]}` : timestamp;
+}
+
+/**
+ * Numbered entries, matching the buttons from buildHistoryKeyboard:
+ *   1. 10-19 14:02 · M1X2K9-3F7A · @bob
+ *      Latte (Oat milk) × 2, Mocha — $12.00 · for @alice
+ */
+export function historyText(entries: HistoryEntry[], heading: string): string {
+  if (!entries.length) return `${heading}\nNo orders yet.`;
+  const lines = entries.map((e, i) => {
+    const drinks = e.rows
+      .map((r) => (r.qty > 1 ? `${r.drink} × ${r.qty}` : r.drink))
+      .join(", ");
+    const head = `${i + 1}. ${shortTime(e.timestamp)} · ${/^[cr]:/.test(e.key) ? "(no id)" : e.key} · ${e.staff}`;
+    let body = `   ${drinks} — ${fmtMoney(e.total)}`;
+    if (e.customer) body += ` · for ${e.customer}`;
+    if (e.voided) {
+      const by = e.rows[0].voidedBy;
+      body += ` · ✖ voided${by ? ` by ${by}` : ""}`;
+    } else {
+      const status = e.rows.find((r) => !isVoided(r))!.status;
+      if (status !== "Collected") body += ` · ${statusLabel(status)}`;
+    }
+    // Drinks, staff and customers are as typed in the sheet
+    return escapeHtml(`${head}\n${body}`);
+  });
+  return [heading, ...lines].join("\n");
+}
@@ -0,0 +1,169 @@
+/**
+ * Languages: message lookup and each user's language.
+ *
+ * Exports:
+ * - Lang type, LANGUAGES: supported languages and their own names
+ * - isLang(v), langFromCode(code): "zh-hans" → "zh"; null if unsupported
+ * - shopLang(): the shop's language (SHOP_LANGUAGE or the Settings tab, see lib/config.ts)
+ * - t(lang, key, params?): a catalog message with {placeholders} filled in (lib/messages.ts),
+ *   HTML-escaped for message text
+ * - tPlain(lang, key, params?): the same without escaping, for button labels and callback answers
+ * - translations(key): a message in every language that has its own version of it
+ * - userLang(user): a Telegram user's language: their /language choice, else their Telegram language
+ * - langOf(userId): the language last seen for a user (for messages they didn't ask for)
+ * - setUserLang(userId, lang): save a /language choice; null goes back to the Telegram language
+ *
+ * Notes:
+ * - Messages missing from a translation fall back to English.
+ * - Preferences live in the SessionStore with a long TTL, like the customer directory.
+ */
+
+import { getConfig } from "./config";
+import { getSessionStore } from "./session";
+import { LRUSet, keyFromParts } from "./idempotency";
+import { escapeHtml } from "./telegram";
+import { en, zh, ms, type Message, type MessageKey } from "./messages";
+
+export type Lang = "en" | "zh" | "ms";
+
+export const LANGUAGES: Record<Lang, string> = {
+  en: "English",
+  zh: "中文",
+  ms: "Bahasa Melayu",
+};
+
+const CATALOGS: Record<Lang, Partial<Record<MessageKey, Message>>> = {
+  en,
+  zh,
+  ms,
+};
+
+// key: lang:<userId> -> their language; chosen = set with /language rather than detected
+type LangPref = { lang: Lang; chosen: boolean };
+
+const LANG_TTL_MS = 365 * 24 * 60 * 60 * 1000;
+// Skip rewriting preferences already stored by this instance recently
+const noted = new LRUSet<string>(1000);
+
+export function isLang(v: string): v is Lang {
+  return Object.prototype.hasOwnProperty.call(LANGUAGES, v);
+}
+
+/**
+ * The supported language for a Telegram language_code ("zh-hans", "ms", "en-GB").
+ */
+export function langFromCode(code?: string): Lang | null {
+  const primary = String(code || "")
+    .trim()
+    .toLowerCase()
+    .split(/[-_]/)[0];
+  return isLang(primary) ? primary : null;
+}
+
+export function shopLang(): Lang {
+  return langFromCode(getConfig().language) || "en";
+}
+
+function fill(
+  lang: Lang,
+  key: MessageKey,
+  params: Record<string, string | number>,
+  escape: (s: string) => string,
+): string {
+  const msg = CATALOGS[lang]?.[key] ?? en[key];
+  const text =
+    typeof msg === "string" ? msg : params.count === 1 ? msg.one : msg.other;
+  return text.replace(/\{(\w+)\}/g, (m, name) =>
+    name in params ? escape(String(params[name])) : m,
+  );
+}
+
+/**
+ * Parameters are escaped, since drink names, customers and codes come from the sheet or from users.
+ */
+export function t(
+  lang: Lang,
+  key: MessageKey,
+  params: Record<string, string | number> = {},
+): string {
+  return fill(lang, key, params, escapeHtml);
+}
+
+/**
+ * Telegram shows button labels and callback answers as typed: "&amp;" would appear as is.
+ */
+export function tPlain(
+  lang: Lang,
+  key: MessageKey,
+  params: Record<string, string | number> = {},
+): string {
+  return fill(lang, key, params, (s) => s);
+}
+
+export function translations(key: MessageKey): Partial<Record<Lang, string>> {
+  const out: Partial<Record<Lang, string>> = {};
+  for (const lang of Object.keys(LANGUAGES) as Lang[]) {
+    const msg = CATALOGS[lang][key];
+    if (typeof msg === "string") out[lang] = msg;
+  }
+  return out;
+}
+
+const prefKey = (userId: number) => keyFromParts("lang", userId);
+
+/**
+ * Remembers the detected language so langOf() can use it later.
+ * Never throws: the shop's language is used if the store can't be read.
+ */
+export async function userLang(user?: {
+  id: number;
+  language_code?: string;
+}): Promise<Lang> {
+  if (!user?.id) return shopLang();
+  const detected = langFromCode(user.language_code);
+  try {
+    const sessions = getSessionStore();
+    const pref = await sessions.get<LangPref>(prefKey(user.id));
+    if (pref?.chosen && isLang(pref.lang)) return pref.lang;
+    const seenKey = keyFromParts(user.id, detected);
+    if (detected && (pref?.lang !== detected || !noted.has(seenKey))) {
+      await sessions.set<LangPref>(
+        prefKey(user.id),
+        { lang: detected, chosen: false },
+        LANG_TTL_MS,
+      );
+      noted.add(seenKey);
+    } else if (!detected && pref) {
+      await sessions.delete(prefKey(user.id));
+    }
+  } catch (e: any) {
+    console.error(`language lookup error: ${e?.message || String(e)}`);
+  }
+  return detected || shopLang();
+}
+
+export async function langOf(userId: number): Promise<Lang> {
+  try {
+    const pref = await getSessionStore().get<LangPref>(prefKey(userId));
+    if (pref && isLang(pref.lang)) return pref.lang;
+  } catch (e: any) {
+    console.error(`language lookup error: ${e?.message || String(e)}`);
+  }
+  return shopLang();
+}
+
+export async function setUserLang(
+  userId: number,
+  lang: Lang | null,
+): Promise<void> {
+  const sessions = getSessionStore();
+  if (lang) {
+    await sessions.set<LangPref>(
+      prefKey(userId),
+      { lang, chosen: true },
+      LANG_TTL_MS,
+    );
+  } else {
+    await sessions.delete(prefKey(userId));
+  }
+}
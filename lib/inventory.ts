@@ -0,0 +1,270 @@
+/**
+ * Ingredient stock driven by the Ingredients and Recipes tabs.
+ *
+ * Exports:
+ * - Ingredient / RecipeRow / StockLine types
+ * - stockLineFromCart(line) / stockLineFromOrder(row): what a drink line uses
+ * - usageFor(lines, recipes): ingredient -> amount used
+ * - consumeStock(lines): decrement stock for a confirmed order; resolves to ingredients that fell below their reorder level
+ * - restoreStock(rows): add back the stock of voided order rows
+ * - lowStockText(items): alert text for tgNotifyAdmin
+ *
+ * Sheets (read like the Menu tab; a header row is optional):
+ * - Ingredients!A:D — Ingredient | Unit | Stock | Reorder
+ * - Recipes!A:D     — Item | Modifier | Ingredient | Amount
+ *
+ * Notes:
+ * - Item is a drink's Menu Id (see lib/menu.ts), its name, or * (every drink). A drink
+ *   with rows under its Id uses those, so renaming it keeps stock tracking; rows under
+ *   its name are the fallback. A blank Modifier is the base recipe;
+ *   otherwise the row only applies when that option is chosen ("Oat milk" or "Milk: Oat milk").
+ * - Amounts are per cup and may be negative (e.g., Oat milk: Milk −200, Oat milk +200).
+ *   Each line's total per ingredient is floored at 0.
+ * - BYOC is built in: a line with the BYOC option uses no "Cup" / "Cups" ingredient,
+ *   whatever the Recipes tab says.
+ * - No Ingredients tab (or no SHEET_ID) means inventory is off; orders are never blocked by stock.
+ * - Stock is read, adjusted and written back per order. Two orders confirmed in the same
+ *   instant can race; the Stock column is a running count, not an audit log.
+ */
+
+import { getSheetsAuth, SHEETS_TIMEOUT_MS, type OrderRow } from "./sheets";
+import { type SelectedModifier } from "./menu";
+import { baseDrinkName } from "./cart";
+import { escapeHtml } from "./telegram";
+
+const SHEET_ID = (globalThis as any)?.process?.env?.SHEET_ID || "";
+
+export type Ingredient = {
+  name: string;
+  unit: string;
+  stock: number;
+  reorder: number; // alert when stock drops below this
+};
+
+export type RecipeRow = {
+  item: string; // drink Id or name, or "*"
+  modifier: string; // "" for the base recipe
+  ingredient: string;
+  amount: number;
+};
+
+/**
+ * One drink line as far as stock is concerned.
+ */
+export type StockLine = {
+  drinkId: string; // "" for rows saved before drink ids existed
+  name: string;
+  options: string[]; // "Oat milk" and "Milk: Oat milk" forms, lowercased
+  qty: number;
+};
+
+export function stockLineFromCart(line: {
+  drinkId: string;
+  name: string;
+  mods: SelectedModifier[];
+  qty: number;
+}): StockLine {
+  return {
+    drinkId: line.drinkId,
+    name: line.name,
+    options: line.mods.flatMap((m) => [
+      m.option.toLowerCase(),
+      `${m.group}: ${m.option}`.toLowerCase(),
+    ]),
+    qty: line.qty,
+  };
+}
+
+/**
+ * From a saved Orders row: options from the Modifiers column, or the labels in
+ * the Drink name ("Latte (oat) (byoc)") for rows saved before it existed.
+ */
+export function stockLineFromOrder(row: OrderRow): StockLine {
+  let options: string[] = [];
+  if (row.modifiers) {
+    for (const part of row.modifiers.split(";")) {
+      const [group, option] = part.split(":").map((x) => x.trim());
+      if (!group || !option) continue;
+      options.push(option.toLowerCase(), `${group}: ${option}`.toLowerCase());
+    }
+  } else {
+    options = (row.drink.match(/\(([^)]*)\)/g) || [])
+      .flatMap((m) => m.slice(1, -1).split(","))
+      .map((x) => x.trim().toLowerCase())
+      .filter(Boolean);
+    if (row.oatMilk && !options.includes("oat milk")) options.push("oat milk");
+  }
+  return {
+    drinkId: row.drinkId,
+    name: baseDrinkName(row.drink, row.modifiers),
+    options,
+    qty: row.qty || 1,
+  };
+}
+
+function normalize(s: string): string {
+  return s.trim().toLowerCase();
+}
+
+// Ingredients a bring-your-own-cup line never uses
+const CUP_INGREDIENTS = new Set(["cup", "cups"]);
+
+/**
+ * Total ingredient use for some lines, keyed by lowercased ingredient name.
+ */
+export function usageFor(
+  lines: StockLine[],
+  recipes: RecipeRow[],
+): Map<string, number> {
+  const total = new Map<string, number>();
+  for (const line of lines) {
+    const id = normalize(line.drinkId);
+    const byId = !!id && recipes.some((r) => normalize(r.item) === id);
+    const key = byId ? id : normalize(line.name);
+    const byoc = line.options.includes("byoc");
+    const perCup = new Map<string, number>();
+    for (const r of recipes) {
+      const item = normalize(r.item);
+      if (item !== "*" && item !== key) continue;
+      const mod = normalize(r.modifier);
+      if (mod && !line.options.includes(mod)) continue;
+      const ingredient = normalize(r.ingredient);
+      if (byoc && CUP_INGREDIENTS.has(ingredient)) continue;
+      perCup.set(ingredient, (perCup.get(ingredient) || 0) + r.amount);
+    }
+    for (const [key, amount] of perCup) {
+      if (amount <= 0) continue;
+      total.set(key, (total.get(key) || 0) + amount * line.qty);
+    }
+  }
+  return total;
+}
+
+/* =============================
+   Sheets access
+============================= */
+
+/**
+ * 1 if the first row is a header starting with `first`, else 0.
+ */
+function headerRows(values: any[][], first: string): number {
+  const head = String(values[0]?.[0] ?? "")
+    .trim()
+    .toLowerCase();
+  return head === first ? 1 : 0;
+}
+
+/**
+ * Reads both tabs in one call. Resolves to null when inventory is off.
+ */
+async function readInventory(): Promise<{
+  ingredients: Array<Ingredient & { row: number }>;
+  recipes: RecipeRow[];
+} | null> {
+  if (!SHEET_ID) return null;
+  const auth = await getSheetsAuth();
+  let ranges: any[];
+  try {
+    const resp = await auth.sheets.spreadsheets.values.batchGet(
+      {
+        spreadsheetId: SHEET_ID,
+        ranges: ["Ingredients!A:D", "Recipes!A:D"],
+        valueRenderOption: "UNFORMATTED_VALUE",
+      },
+      { timeout: SHEETS_TIMEOUT_MS },
+    );
+    ranges = (resp && resp.data && resp.data.valueRanges) || [];
+  } catch (e: any) {
+    // Missing tabs fail the whole request: treat as "inventory not set up"
+    if (/unable to parse range/i.test(e?.message || "")) return null;
+    throw e;
+  }
+
+  const ingValues: any[][] = ranges[0]?.values || [];
+  const skip = headerRows(ingValues, "ingredient");
+  const ingredients: Array<Ingredient & { row: number }> = [];
+  ingValues.forEach((v, i) => {
+    if (i < skip) return;
+    const name = String(v?.[0] ?? "").trim();
+    const stock = Number(v?.[2]);
+    if (!name || !Number.isFinite(stock)) return;
+    ingredients.push({
+      name,
+      unit: String(v?.[1] ?? "").trim(),
+      stock,
+      reorder: Number(v?.[3]) || 0,
+      row: i + 1,
+    });
+  });
+  if (!ingredients.length) return null;
+
+  const recipes: RecipeRow[] = [];
+  const recipeValues: any[][] = ranges[1]?.values || [];
+  for (const v of recipeValues.slice(headerRows(recipeValues, "item"))) {
+    const item = String(v?.[0] ?? "").trim();
+    const ingredient = String(v?.[2] ?? "").trim();
+    const amount = Number(v?.[3]);
+    if (!item || !ingredient || !Number.isFinite(amount)) continue;
+    recipes.push({
+      item,
+      modifier: String(v?.[1] ?? "").trim(),
+      ingredient,
+      amount,
+    });
+  }
+  return { ingredients, recipes };
+}
+
+/**
+ * Apply `sign * usage` to the Stock column. Resolves to the ingredients that
+ * crossed from at-or-above to below their reorder level.
+ */
+async function adjustStock(
+  lines: StockLine[],
+  sign: 1 | -1,
+): Promise<Ingredient[]> {
+  if (!lines.length) return [];
+  const inv = await readInventory();
+  if (!inv) return [];
+  const usage = usageFor(lines, inv.recipes);
+  if (!usage.size) return [];
+
+  const updates: Array<{ range: string; values: any[][] }> = [];
+  const crossed: Ingredient[] = [];
+  for (const ing of inv.ingredients) {
+    const used = usage.get(normalize(ing.name));
+    if (!used) continue;
+    const next = Number((ing.stock + sign * used).toFixed(3));
+    updates.push({ range: `Ingredients!C${ing.row}`, values: [[next]] });
+    if (ing.reorder > 0 && ing.stock >= ing.reorder && next < ing.reorder) {
+      crossed.push({ ...ing, stock: next });
+    }
+  }
+  if (!updates.length) return [];
+
+  const auth = await getSheetsAuth();
+  await auth.sheets.spreadsheets.values.batchUpdate(
+    {
+      spreadsheetId: SHEET_ID,
+      requestBody: { valueInputOption: "RAW", data: updates },
+    },
+    { timeout: SHEETS_TIMEOUT_MS },
+  );
+  return crossed;
+}
+
+export function consumeStock(lines: StockLine[]): Promise<Ingredient[]> {
+  return adjustStock(lines, -1);
+}
+
+export async function restoreStock(rows: OrderRow[]): Promise<void> {
+  await adjustStock(rows.map(stockLineFromOrder), 1);
+}
+
+export function lowStockText(items: Ingredient[]): string {
+  const lines = items.map(
+    (i) =>
+      `• ${escapeHtml(i.name)}: ${i.stock}${i.unit ? ` ${escapeHtml(i.unit)}` : ""} left (reorder at ${i.reorder})`,
+  );
+  return ["⚠ Low stock", ...lines].join("\n");
+}
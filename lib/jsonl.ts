@@ -0,0 +1,50 @@
+/**
+ * Tiny JSON-lines file helper shared by the local (no Sheets) backends.
+ *
+ * - One JSON value per line; a missing file reads as empty.
+ * - run() serializes read-modify-write sequences within the process.
+ * - Not safe for several processes writing the same file.
+ */
+
+import { promises as fs } from "fs";
+
+export class JsonLinesFile<T> {
+  readonly path: string;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  /** Run fn after every previously queued operation has settled. */
+  run<R>(fn: () => Promise<R>): Promise<R> {
+    const next = this.queue.then(fn, fn);
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  async readAll(): Promise<T[]> {
+    let raw = "";
+    try {
+      raw = await fs.readFile(this.path, "utf8");
+    } catch (err: any) {
+      if (err?.code === "ENOENT") return [];
+      throw err;
+    }
+    return raw
+      .split("\n")
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line) as T);
+  }
+
+  async writeAll(rows: T[]): Promise<void> {
+    const body = rows.map((r) => JSON.stringify(r)).join("\n");
+    await fs.writeFile(this.path, body ? `${body}\n` : "", "utf8");
+  }
+
+  async appendAll(rows: T[]): Promise<void> {
+    if (!rows.length) return;
+    const body = rows.map((r) => `${JSON.stringify(r)}\n`).join("");
+    await fs.appendFile(this.path, body, "utf8");
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Stamp cards: every paid drink billed to a customer earns a stamp, and each
+ * full card is one free drink.
+ *
+ * Exports:
+ * - StampCard type
+ * - STAMP_CARD_SIZE: stamps per free drink (0 = stamp cards off)
+ * - stampCard(who): a customer's card, derived from their confirmed orders
+ * - stampCardText(card, name?, lang?): the card for Telegram ("You" when name is blank)
+ * - rewardCups(lines): how many free stamp-card drinks some cart lines hold
+ *
+ * Env:
+ * - STAMP_CARD_SIZE: optional, default 10
+ *
+ * Notes:
+ * - Nothing is stored: stamps are counted from non-voided Orders rows billed to the
+ *   customer (tagged by a barista or placed with /order), so voiding an order takes
+ *   its stamps back off.
+ * - A free drink is saved as its own zero-priced row with Reward set; it earns no
+ *   stamp and uses up one full card.
+ */
+
+import { getOrderStore, listAllOrders, isVoided } from "./orders";
+import { sameCustomer } from "./customers";
+import { t, type Lang } from "./i18n";
+
+export const STAMP_CARD_SIZE = (() => {
+  const raw = (globalThis as any)?.process?.env?.STAMP_CARD_SIZE;
+  const n = Number(raw);
+  return raw !== undefined && raw !== "" && Number.isInteger(n) && n >= 0
+    ? n
+    : 10;
+})();
+
+export type StampCard = {
+  stamps: number; // on the current card, 0 .. STAMP_CARD_SIZE - 1
+  rewards: number; // free drinks earned and not yet redeemed
+  earned: number; // every stamp ever
+  redeemed: number; // free drinks already given
+};
+
+export function rewardCups(
+  lines: Array<{ qty: number; reward?: boolean }>,
+): number {
+  return lines.reduce((sum, l) => sum + (l.reward ? l.qty : 0), 0);
+}
+
+export async function stampCard(who: {
+  userId?: number;
+  username?: string;
+}): Promise<StampCard> {
+  const rows = (await listAllOrders(getOrderStore())).filter(
+    (o) => !isVoided(o) && sameCustomer(who, o.customerId, o.customer),
+  );
+  let earned = 0;
+  let redeemed = 0;
+  for (const r of rows) {
+    if (r.reward) redeemed += r.qty || 1;
+    else earned += r.qty || 0;
+  }
+  if (!STAMP_CARD_SIZE) return { stamps: 0, rewards: 0, earned, redeemed };
+  return {
+    stamps: earned % STAMP_CARD_SIZE,
+    rewards: Math.max(0, Math.floor(earned / STAMP_CARD_SIZE) - redeemed),
+    earned,
+    redeemed,
+  };
+}
+
+/**
+ * e.g.
+ *   ☕ Stamps: ●●●●●●●○○○ 7/10
+ *   🎁 1 free drink to redeem — ask the barista.
+ */
+export function stampCardText(
+  card: StampCard,
+  name = "",
+  lang: Lang = "en",
+): string {
+  const dots =
+    "●".repeat(card.stamps) + "○".repeat(STAMP_CARD_SIZE - card.stamps);
+  const params = {
+    customer: name,
+    dots,
+    stamps: card.stamps,
+    size: STAMP_CARD_SIZE,
+  };
+  const out = [t(lang, name ? "stampsOf" : "stamps", params)];
+  if (card.rewards > 0) {
+    out.push(
+      t(lang, name ? "freeDrinksOf" : "freeDrinksToRedeem", {
+        count: card.rewards,
+      }),
+    );
+  } else {
+    out.push(t(lang, "stampsLeft", { count: STAMP_CARD_SIZE - card.stamps }));
+  }
+  return out.join("\n");
+}
@@ -1,47 +1,279 @@
 /**
- * Static menu definition and helpers for building Telegram inline keyboards.
+ * Menu definition (built-in defaults, refreshed from the Sheets tabs) and helpers
+ * for building Telegram inline keyboards.
  *
  * Exports:
  * - DRINKS: readonly menu items
- * - OAT_UPCHARGE: number
+ * - MODIFIER_GROUPS: modifier groups (milk, cup, size, ...) with price deltas
  * - fmtMoney(n): string
- * - buildMainMenu(): InlineKeyboardMarkup (2 columns, D|<idx> callback)
- * - buildOatChoice(idx): InlineKeyboardMarkup (Regular / With Oat, C|<idx>|<0|1>)
- * - listText(): string (bullet list with prices; marks oat-eligible)
- * - drinkByIndex(idx): Drink | undefined
- * - totalWithOat(base, oat): number
+ * - buildMainMenu(lang?): InlineKeyboardMarkup (one button per category, K|<slug>|0; straight to the drinks if there's only one)
+ * - buildCategoryMenu(category, page, lang?): InlineKeyboardMarkup (a page of a category's drinks, D|<drinkId>, with back / prev / next)
+ * - menuCategories(): category names in Menu tab order
+ * - categorySlug(category), categoryBySlug(slug): the id K| buttons carry ("Hot Drinks" → "hot-drinks")
+ * - categoryName(category, lang): a category in a user's language
+ * - modifierGroupsFor(drink): the groups (and their options) that apply to a drink
+ * - modifierVersion(drink): short hash of the drink's groups and options, carried in M| buttons
+ * - buildModifierChoice(drinkId, picks, lang?): InlineKeyboardMarkup for the next group (M|<drinkId>|<version>|<picks>)
+ * - parsePicks(raw): option indexes from the <picks> segment ("1.0")
+ * - resolveModifiers(drinkId, picks): SelectedModifier[] for a complete set of picks
+ * - listText(lang?): string (bullet list with prices, sold-out drinks struck through; modifier price notes at the top)
+ * - buildCartKeyboard(selfOrder?, reward?, lang?): InlineKeyboardMarkup (add / confirm / customer / promo code / remove last / cancel)
+ * - buildHistoryKeyboard(entries, limit, lang?): InlineKeyboardMarkup (void / repeat per /history entry)
+ * - buildTicketKeyboard(ticketId, lang?): InlineKeyboardMarkup (accept / reject a customer's order)
+ * - buildLanguageKeyboard(current): InlineKeyboardMarkup (one button per language, L|<code>, plus L|auto)
+ * - buildStatusKeyboard(orderId, status, payable, lang?): InlineKeyboardMarkup (next status steps / mark paid)
+ * - statusStep(from, code): the status an S| button moves to, or null if it's no longer valid
+ * - statusName(status, lang?) / statusLabel(status, lang?): "Preparing" / "👨‍🍳 Preparing"
+ * - drinkName(drink, lang), groupPrompt(group, lang), optionLabel(mod, lang): names in a user's language
+ * - drinkById(id): Drink | undefined
+ * - drinkSlug(name): the id a Menu row gets when its Id cell is blank ("Matcha Latte" → "matcha-latte")
+ * - findDrinks(query): exact name match, or every drink whose name contains the query
+ * - ensureMenuFresh(): load the Menu and Modifiers tabs if they're older than MENU_TTL_SECONDS
+ * - reloadMenu(): load them now; resolves to a MenuLoadReport (/reloadmenu)
+ * - menuReportText(report): summary plus every rejected row and why
+ * - setDrinkAvailable(drink, available): write a drink's Available cell (/soldout, /restock)
+ *
+ * Env:
+ * - MENU_TTL_SECONDS: how long a loaded menu is used before the tabs are read again (default 60)
+ *
+ * Sheets:
+ * - Menu tab: Name | Price | OatMilk | Available | Category | Id
+ *   - Rows with no name, a non-numeric price, or a name or id used on an earlier row are
+ *     skipped and listed in the load report
+ *   - Id: what callbacks and saved orders refer to, so it must not change once orders use it
+ *     (blank = drinkSlug(name); a-z, 0-9, _ and -, at most 24 characters). Reordering or
+ *     renaming rows is safe as long as the Id stays
+ *   - Available: blank or yes = on sale; no = sold out. Every instance picks up a change
+ *     (and any price edit) within MENU_TTL_SECONDS, no redeploy needed
+ *   - Category: Coffee, Matcha, Tea, ... (blank = Other); categories are listed in order of first appearance
+ *   - Translated names (optional, needs the header row): more columns headed "Name zh",
+ *     "Name ms", ... (see lib/i18n.ts); a blank cell shows the Name column
+ *   - Translated categories: "Category zh", ... columns (the first non-blank cell per category
+ *     wins); without one, Coffee, Matcha, Tea and Other use the message catalog
+ * - Modifiers tab (optional): Group | Option | Price | Drinks | Prompt
+ *   - One row per option; groups are asked in order of first appearance
+ *   - Price is the delta added to the drink price (negative for discounts, blank = 0)
+ *   - Drinks: blank or "*" for every drink, "oat" for drinks with OatMilk = yes,
+ *     otherwise a comma-separated list of drink Ids (or names)
+ *   - Prompt: question shown for the group (first non-blank value wins)
+ *   - The first option of a group is its default and is left out of drink labels
+ *   - Translations (optional, needs the header row): columns headed "Option zh", "Prompt zh", ...
+ * - Orders always record the Name and Option columns, whatever language the order was placed in.
  */
 
-import { getSheetsAuth, SHEETS_TIMEOUT_MS } from "./sheets";
+import { getSheetsAuth, SHEETS_TIMEOUT_MS, type OrderStatus } from "./sheets";
+import { formatMoney } from "./config";
+import { createHash } from "crypto";
+import { t, translations, langFromCode, LANGUAGES, type Lang } from "./i18n";
+import { escapeHtml } from "./telegram";
+import { type MessageKey } from "./messages";
 
 export type Drink = {
+  id: string; // stable across menu reloads; used in callback data and the Orders sheet
   name: string;
   price: number;
   oat: boolean;
+  available: boolean; // false while sold out
+  category: string;
+  names?: Partial<Record<Lang, string>>; // translated names, from "Name zh"-style columns
+  categoryNames?: Partial<Record<Lang, string>>; // from "Category zh"-style columns
+};
+
+export type ModifierOption = {
+  name: string;
+  delta: number; // added to the drink price
+  drinks: string[]; // lowercase drink Ids or names, "*" or "oat"
+  names?: Partial<Record<Lang, string>>;
+};
+
+export type ModifierGroup = {
+  name: string;
+  prompt: string;
+  prompts?: Partial<Record<Lang, string>>;
+  options: ModifierOption[];
 };
 
-export const OAT_UPCHARGE = 0.5;
-export const BYOC_DISCOUNT = 0.5;
+/**
+ * A chosen modifier, as stored on cart lines and orders.
+ */
+export type SelectedModifier = {
+  group: string;
+  option: string;
+  delta: number;
+  isDefault: boolean; // first option of its group
+};
 
 export let DRINKS: Drink[] = [
-  { name: "Americano", price: 3.0, oat: false },
-  { name: "Honey Americano", price: 3.5, oat: false },
-  { name: "Latte", price: 3.0, oat: true },
-  { name: "Biscoff Latte", price: 3.5, oat: true },
-  { name: "Peanut Butter Latte", price: 3.5, oat: true },
-  { name: "Cappuccino", price: 3.8, oat: true },
-  { name: "Mocha", price: 4.5, oat: true },
-  { name: "Chocolate", price: 3.0, oat: true },
-  { name: "Matcha Latte", price: 3.5, oat: true },
-  { name: "Salted Honey Matcha", price: 4.0, oat: true },
-  { name: "Strawberry Matcha", price: 4.0, oat: true },
-  { name: "Hibiscus Strawberry Tea", price: 2.5, oat: false },
-  { name: "Hibiscus Lemonade", price: 3.0, oat: false },
+  {
+    id: "americano",
+    name: "Americano",
+    price: 3.0,
+    oat: false,
+    available: true,
+    category: "Coffee",
+  },
+  {
+    id: "honey-americano",
+    name: "Honey Americano",
+    price: 3.5,
+    oat: false,
+    available: true,
+    category: "Coffee",
+  },
+  {
+    id: "latte",
+    name: "Latte",
+    price: 3.0,
+    oat: true,
+    available: true,
+    category: "Coffee",
+  },
+  {
+    id: "biscoff-latte",
+    name: "Biscoff Latte",
+    price: 3.5,
+    oat: true,
+    available: true,
+    category: "Coffee",
+  },
+  {
+    id: "peanut-butter-latte",
+    name: "Peanut Butter Latte",
+    price: 3.5,
+    oat: true,
+    available: true,
+    category: "Coffee",
+  },
+  {
+    id: "cappuccino",
+    name: "Cappuccino",
+    price: 3.8,
+    oat: true,
+    available: true,
+    category: "Coffee",
+  },
+  {
+    id: "mocha",
+    name: "Mocha",
+    price: 4.5,
+    oat: true,
+    available: true,
+    category: "Coffee",
+  },
+  {
+    id: "matcha-latte",
+    name: "Matcha Latte",
+    price: 3.5,
+    oat: true,
+    available: true,
+    category: "Matcha",
+  },
+  {
+    id: "salted-honey-matcha",
+    name: "Salted Honey Matcha",
+    price: 4.0,
+    oat: true,
+    available: true,
+    category: "Matcha",
+  },
+  {
+    id: "strawberry-matcha",
+    name: "Strawberry Matcha",
+    price: 4.0,
+    oat: true,
+    available: true,
+    category: "Matcha",
+  },
+  {
+    id: "hibiscus-strawberry-tea",
+    name: "Hibiscus Strawberry Tea",
+    price: 2.5,
+    oat: false,
+    available: true,
+    category: "Tea",
+  },
+  {
+    id: "hibiscus-lemonade",
+    name: "Hibiscus Lemonade",
+    price: 3.0,
+    oat: false,
+    available: true,
+    category: "Tea",
+  },
+  {
+    id: "chocolate",
+    name: "Chocolate",
+    price: 3.0,
+    oat: true,
+    available: true,
+    category: "Other",
+  },
+];
+
+export let MODIFIER_GROUPS: ModifierGroup[] = [
+  {
+    name: "Milk",
+    prompt: t("en", "milkPrompt"),
+    prompts: translations("milkPrompt"),
+    options: [
+      {
+        name: "Dairy milk",
+        delta: 0,
+        drinks: ["oat"],
+        names: translations("dairyMilk"),
+      },
+      {
+        name: "Oat milk",
+        delta: 0.5,
+        drinks: ["oat"],
+        names: translations("oatMilk"),
+      },
+    ],
+  },
+  {
+    name: "Cup",
+    prompt: t("en", "cupPrompt"),
+    prompts: translations("cupPrompt"),
+    options: [
+      {
+        name: "Shop cup",
+        delta: 0,
+        drinks: ["*"],
+        names: translations("shopCup"),
+      },
+      { name: "BYOC", delta: -0.5, drinks: ["*"], names: translations("byoc") },
+    ],
+  },
 ];
 
 const SHEET_ID = (globalThis as any)?.process?.env?.SHEET_ID || "";
 
-let __menuLoadOnce: Promise<void> | null = null;
+const MENU_TTL_MS =
+  (Number((globalThis as any)?.process?.env?.MENU_TTL_SECONDS) || 60) * 1000;
+const DEFAULT_CATEGORY = "Other";
+// Built-in category names, translated by the message catalog
+const CATEGORY_MESSAGES: Record<string, MessageKey> = {
+  coffee: "categoryCoffee",
+  matcha: "categoryMatcha",
+  tea: "categoryTea",
+  other: "categoryOther",
+};
+const DRINKS_PER_PAGE = 8; // 4 rows of 2
+
+/**
+ * The outcome of one menu load.
+ */
+export type MenuLoadReport = {
+  source: "sheet" | "built-in"; // where DRINKS came from
+  drinks: number;
+  modifierGroups: number;
+  rejected: Array<{ tab: "Menu" | "Modifiers"; row: number; reason: string }>;
+  error?: string; // the Menu tab couldn't be read; the previous menu stays in use
+};
+
+let __menuLoadedAt = 0;
+let __menuLoad: Promise<MenuLoadReport> | null = null;
+let __lastRejected = "";
 
 function coerceBool(v: any): boolean {
   if (typeof v === "boolean") return v;
@@ -53,14 +285,199 @@ function coerceBool(v: any): boolean {
   return false;
 }
 
-async function loadMenuFromSheet(): Promise<void> {
-  if (!SHEET_ID) return;
+/**
+ * A blank Available cell means the drink is on sale.
+ */
+function coerceAvailable(v: any): boolean {
+  if (v === undefined || v === null || String(v).trim() === "") return true;
+  return coerceBool(v);
+}
+
+async function readMenuValues(): Promise<any[][]> {
+  const auth = await getSheetsAuth();
+  const resp = await auth.sheets.spreadsheets.values.get(
+    {
+      spreadsheetId: SHEET_ID,
+      range: "Menu!A:Z",
+      valueRenderOption: "UNFORMATTED_VALUE",
+    },
+    { timeout: SHEETS_TIMEOUT_MS },
+  );
+  return (resp && resp.data && resp.data.values) || [];
+}
+
+function menuHeaderRows(values: any[][]): number {
+  const header = (values[0] || []).map((x: any) =>
+    String(x ?? "")
+      .trim()
+      .toLowerCase(),
+  );
+  return header.includes("name") && header.includes("price") ? 1 : 0;
+}
+
+const DRINK_ID_RE = /^[a-z0-9][a-z0-9_-]{0,23}$/;
+
+/**
+ * Lowercase letters and digits joined by "-", at most 24 characters.
+ */
+export function drinkSlug(name: string): string {
+  return name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+/, "")
+    .slice(0, 24)
+    .replace(/-+$/, "");
+}
+
+function isBlankRow(row: any[] | undefined): boolean {
+  return !row || row.every((c) => String(c ?? "").trim() === "");
+}
+
+/**
+ * Columns headed "<field> <lang>" ("Name zh", "Prompt (ms)", "option_zh"), for supported languages.
+ */
+function languageColumns(
+  header: any[],
+  field: string,
+): Array<{ col: number; lang: Lang }> {
+  const out: Array<{ col: number; lang: Lang }> = [];
+  const re = new RegExp(`^${field}[\\s_-]*\\(?([a-z]{2,3}(?:-[a-z]+)?)\\)?$`);
+  header.forEach((h, col) => {
+    const m = re.exec(
+      String(h ?? "")
+        .trim()
+        .toLowerCase(),
+    );
+    const lang = m ? langFromCode(m[1]) : null;
+    if (lang) out.push({ col, lang });
+  });
+  return out;
+}
+
+/**
+ * The non-blank cells of a row's language columns.
+ */
+function translatedCells(
+  row: any[],
+  cols: Array<{ col: number; lang: Lang }>,
+): Partial<Record<Lang, string>> | undefined {
+  const out: Partial<Record<Lang, string>> = {};
+  for (const { col, lang } of cols) {
+    const v = String(row[col] ?? "").trim();
+    if (v) out[lang] = v;
+  }
+  return Object.keys(out).length ? out : undefined;
+}
+
+async function loadMenuFromSheet(): Promise<MenuLoadReport> {
+  const report: MenuLoadReport = {
+    source: "built-in",
+    drinks: 0,
+    modifierGroups: 0,
+    rejected: [],
+  };
+  if (!SHEET_ID) {
+    report.drinks = DRINKS.length;
+    report.modifierGroups = MODIFIER_GROUPS.length;
+    return report;
+  }
+  try {
+    const values = await readMenuValues();
+    const start = menuHeaderRows(values);
+    const nameCols = start ? languageColumns(values[0], "name") : [];
+    const categoryCols = start ? languageColumns(values[0], "category") : [];
+
+    const newMenu: Drink[] = [];
+    const seen = new Map<string, number>(); // lowercased name -> sheet row
+    const seenIds = new Map<string, number>(); // id -> sheet row
+    for (let i = start; i < values.length; i++) {
+      const row = values[i];
+      if (isBlankRow(row)) continue;
+      const sheetRow = i + 1;
+      const reject = (reason: string) =>
+        report.rejected.push({ tab: "Menu", row: sheetRow, reason });
+
+      const name = String(row[0] ?? "").trim();
+      if (!name) {
+        reject("missing name");
+        continue;
+      }
+      const rawPrice = row[1];
+      const p = String(rawPrice ?? "").trim() === "" ? NaN : Number(rawPrice);
+      if (!Number.isFinite(p)) {
+        reject(`${name}: non-numeric price “${rawPrice ?? ""}”`);
+        continue;
+      }
+      const first = seen.get(name.toLowerCase());
+      if (first) {
+        reject(`${name}: duplicate name (first on row ${first})`);
+        continue;
+      }
+      const id =
+        String(row[5] ?? "")
+          .trim()
+          .toLowerCase() || drinkSlug(name);
+      if (!DRINK_ID_RE.test(id)) {
+        reject(
+          row[5]
+            ? `${name}: invalid id “${row[5]}”`
+            : `${name}: fill in the Id column (no id can be made from the name)`,
+        );
+        continue;
+      }
+      const firstId = seenIds.get(id);
+      if (firstId) {
+        reject(`${name}: duplicate id “${id}” (first on row ${firstId})`);
+        continue;
+      }
+      seen.set(name.toLowerCase(), sheetRow);
+      seenIds.set(id, sheetRow);
+      newMenu.push({
+        id,
+        name,
+        price: p,
+        oat: coerceBool(row[2]),
+        available: coerceAvailable(row[3]),
+        category: String(row[4] ?? "").trim() || DEFAULT_CATEGORY,
+        names: translatedCells(row, nameCols),
+        categoryNames: translatedCells(row, categoryCols),
+      });
+    }
+
+    if (newMenu.length) {
+      // Update exported DRINKS in place to preserve import binding
+      (DRINKS as Drink[]).length = 0;
+      (DRINKS as Drink[]).push(...newMenu);
+      report.source = "sheet";
+    }
+  } catch (e: any) {
+    report.error = e?.message || String(e);
+    console.error(`menu load error: ${report.error}`);
+  }
+  await loadModifiersFromSheet(report);
+  report.drinks = DRINKS.length;
+  report.modifierGroups = MODIFIER_GROUPS.length;
+
+  // Log rejected rows when they change, not on every refresh
+  const rejected = report.rejected
+    .map((r) => `${r.tab} row ${r.row}: ${r.reason}`)
+    .join("; ");
+  if (rejected && rejected !== __lastRejected) {
+    console.error(`menu rows skipped: ${rejected}`);
+  }
+  __lastRejected = rejected;
+  return report;
+}
+
+async function loadModifiersFromSheet(report: MenuLoadReport): Promise<void> {
   try {
     const auth = await getSheetsAuth();
     const resp = await auth.sheets.spreadsheets.values.get(
       {
         spreadsheetId: SHEET_ID,
-        range: "Menu!A:C",
+        range: "Modifiers!A:Z",
         valueRenderOption: "UNFORMATTED_VALUE",
       },
       { timeout: SHEETS_TIMEOUT_MS },
@@ -74,46 +491,163 @@ async function loadMenuFromSheet(): Promise<void> {
         .trim()
         .toLowerCase(),
     );
-    if (header.includes("name") && header.includes("price")) {
+    if (header.includes("group") && header.includes("option")) {
       start = 1;
     }
+    const optionCols = start ? languageColumns(header, "option") : [];
+    const promptCols = start ? languageColumns(header, "prompt") : [];
 
-    const newMenu: Drink[] = [];
+    const groups: ModifierGroup[] = [];
     for (let i = start; i < values.length; i++) {
       const row = values[i];
-      if (!row || row.length === 0) continue;
-      const name = row[0];
-      const price = row[1];
-      const oat = row[2];
-      if (!name) continue;
-      const p = Number(price);
-      if (!Number.isFinite(p)) continue;
-      newMenu.push({
-        name: String(name),
-        price: Number(p),
-        oat: coerceBool(oat),
+      if (isBlankRow(row)) continue;
+      const reject = (reason: string) =>
+        report.rejected.push({ tab: "Modifiers", row: i + 1, reason });
+      const groupName = String(row[0] ?? "").trim();
+      const optionName = String(row[1] ?? "").trim();
+      if (!groupName || !optionName) {
+        reject(groupName ? "missing option" : "missing group");
+        continue;
+      }
+      const rawPrice = row[2];
+      const delta =
+        rawPrice === undefined || rawPrice === "" ? 0 : Number(rawPrice);
+      if (!Number.isFinite(delta)) {
+        reject(`${optionName}: non-numeric price “${rawPrice}”`);
+        continue;
+      }
+      const drinks = String(row[3] ?? "")
+        .split(",")
+        .map((d) => d.trim().toLowerCase())
+        .filter(Boolean);
+      const prompt = String(row[4] ?? "").trim();
+
+      let group = groups.find(
+        (g) => g.name.toLowerCase() === groupName.toLowerCase(),
+      );
+      if (!group) {
+        group = { name: groupName, prompt: "", options: [] };
+        groups.push(group);
+      }
+      if (!group.prompt && prompt) group.prompt = prompt;
+      const prompts = translatedCells(row, promptCols);
+      if (prompts) group.prompts = { ...prompts, ...group.prompts };
+      group.options.push({
+        name: optionName,
+        delta,
+        drinks: drinks.length ? drinks : ["*"],
+        names: translatedCells(row, optionCols),
       });
     }
+    for (const g of groups) {
+      if (!g.prompt) g.prompt = `${g.name}?`;
+    }
 
-    if (newMenu.length) {
-      // Update exported DRINKS in place to preserve import binding
-      (DRINKS as Drink[]).length = 0;
-      (DRINKS as Drink[]).push(...newMenu);
+    if (groups.length) {
+      // Update exported MODIFIER_GROUPS in place to preserve import binding
+      (MODIFIER_GROUPS as ModifierGroup[]).length = 0;
+      (MODIFIER_GROUPS as ModifierGroup[]).push(...groups);
     }
   } catch (e: any) {
-    console.error(`menu load error: ${e?.message || String(e)}`);
+    // A missing Modifiers tab is fine: the built-in groups stay in place
+    if (/unable to parse range/i.test(e?.message || "")) return;
+    console.error(`modifiers load error: ${e?.message || String(e)}`);
+  }
+}
+
+/**
+ * Read the Menu and Modifiers tabs now. Concurrent callers share one load.
+ */
+export function reloadMenu(): Promise<MenuLoadReport> {
+  if (!__menuLoad) {
+    __menuLoad = loadMenuFromSheet()
+      .then((report) => {
+        // Failed reads are retried after the TTL too, not on every request
+        __menuLoadedAt = Date.now();
+        return report;
+      })
+      .finally(() => {
+        __menuLoad = null;
+      });
   }
+  return __menuLoad;
 }
 
-export function ensureMenuLoadedOnce(): Promise<void> {
-  if (!__menuLoadOnce) {
-    __menuLoadOnce = loadMenuFromSheet();
+/**
+ * Reload the menu if it's older than MENU_TTL_SECONDS (or was never loaded).
+ */
+export async function ensureMenuFresh(): Promise<void> {
+  if (__menuLoadedAt && Date.now() - __menuLoadedAt < MENU_TTL_MS) return;
+  await reloadMenu();
+}
+
+// Start the first load when the instance boots, but don't block callers
+void ensureMenuFresh();
+
+/**
+ * /reloadmenu reply:
+ *   ✅ Menu reloaded: 12 drinks in 4 categories, 2 modifier groups
+ *   ⚠ 2 rows skipped:
+ *   • Menu row 9: Mocha: duplicate name (first on row 7)
+ */
+export function menuReportText(report: MenuLoadReport): string {
+  const lines: string[] = [];
+  if (report.error) {
+    lines.push(
+      `⚠ Couldn't read the Menu tab (${escapeHtml(report.error)}); still using the previous menu.`,
+    );
+  }
+  const source = report.source === "sheet" ? "" : " (built-in menu)";
+  lines.push(
+    `✅ Menu reloaded${source}: ${report.drinks} drinks in ${menuCategories().length} categories, ${report.modifierGroups} modifier groups`,
+  );
+  if (report.rejected.length) {
+    lines.push(`⚠ ${report.rejected.length} rows skipped:`);
+    for (const r of report.rejected) {
+      lines.push(`• ${r.tab} row ${r.row}: ${escapeHtml(r.reason)}`);
+    }
   }
-  return __menuLoadOnce;
+  return lines.join("\n");
 }
 
-// Trigger load once per instance, but don't block callers
-void ensureMenuLoadedOnce();
+/**
+ * Mark a drink sold out (false) or back on sale (true) in the Menu tab.
+ * Without SHEET_ID the change only lasts for this instance.
+ */
+export async function setDrinkAvailable(
+  drink: Drink,
+  available: boolean,
+): Promise<void> {
+  if (SHEET_ID) {
+    const values = await readMenuValues();
+    const start = menuHeaderRows(values);
+    const key = drink.name.trim().toLowerCase();
+    const i = values.findIndex(
+      (row, n) =>
+        n >= start &&
+        String(row?.[0] ?? "")
+          .trim()
+          .toLowerCase() === key,
+    );
+    if (i < 0) throw new Error(`${drink.name} is not in the Menu tab`);
+    const data = [
+      { range: `Menu!D${i + 1}`, values: [[available ? "yes" : "no"]] },
+    ];
+    // Name the column the first time it's used
+    if (start && !String(values[0][3] ?? "").trim()) {
+      data.push({ range: "Menu!D1", values: [["Available"]] });
+    }
+    const auth = await getSheetsAuth();
+    await auth.sheets.spreadsheets.values.batchUpdate(
+      {
+        spreadsheetId: SHEET_ID,
+        requestBody: { valueInputOption: "RAW", data },
+      },
+      { timeout: SHEETS_TIMEOUT_MS },
+    );
+  }
+  drink.available = available;
+}
 
 /**
  * Minimal Telegram inline keyboard types to avoid cross-deps.
@@ -128,93 +662,269 @@ export type InlineKeyboardMarkup = {
 };
 
 /**
- * Format as $X.XX
+ * Format in the shop's currency, e.g. $3.50 (see lib/config.ts)
  */
 export function fmtMoney(n: number): string {
-  return `$${n.toFixed(2)}`;
+  return formatMoney(n);
+}
+
+export function drinkById(id: string): Drink | undefined {
+  return DRINKS.find((d) => d.id === id);
+}
+
+export function drinkName(drink: Drink, lang: Lang): string {
+  return drink.names?.[lang] || drink.name;
+}
+
+export function groupPrompt(group: ModifierGroup, lang: Lang): string {
+  return group.prompts?.[lang] || group.prompt;
+}
+
+function optionName(option: ModifierOption, lang: Lang): string {
+  return option.names?.[lang] || option.name;
 }
 
 /**
- * Compute total with optional oat upcharge.
+ * A chosen modifier's option name in `lang`; options since removed from the menu keep their saved name.
  */
-export function totalWithOat(base: number, oat: boolean): number {
-  return Number((base + (oat ? OAT_UPCHARGE : 0)).toFixed(2));
+export function optionLabel(mod: SelectedModifier, lang: Lang): string {
+  const group = MODIFIER_GROUPS.find((g) => g.name === mod.group);
+  const option = group?.options.find((o) => o.name === mod.option);
+  return option ? optionName(option, lang) : mod.option;
 }
 
 /**
- * Safe index lookup.
+ * Drinks matching what someone typed: the exact name (any case), else every
+ * drink whose name contains it ("matcha" → all three matcha drinks).
  */
-export function drinkByIndex(idx: number): Drink | undefined {
-  if (!Number.isFinite(idx)) return undefined;
-  return DRINKS[idx as number];
+export function findDrinks(query: string): Drink[] {
+  const q = query.trim().toLowerCase();
+  if (!q) return [];
+  const exact = DRINKS.find((d) => d.name.toLowerCase() === q);
+  if (exact) return [exact];
+  return DRINKS.filter((d) => d.name.toLowerCase().includes(q));
+}
+
+export function menuCategories(): string[] {
+  const out: string[] = [];
+  for (const d of DRINKS) {
+    if (!out.includes(d.category)) out.push(d.category);
+  }
+  return out;
 }
 
 /**
- * Build the main 2-column inline keyboard with drink choices.
- * Label: "Drink Name"
- * callback_data: D|<idx>
+ * A category's id in callback data, so a button still opens the same category after
+ * the Menu tab is reordered. Names with no Latin letters or digits get a short hash.
  */
-export function buildMainMenu(): InlineKeyboardMarkup {
-  const buttons: InlineKeyboardButton[] = DRINKS.map((d, idx) => {
-    const label = d.name;
-    return { text: label, callback_data: `D|${idx}` };
-  });
+export function categorySlug(category: string): string {
+  return (
+    drinkSlug(category) ||
+    `c-${createHash("sha1").update(category).digest("hex").slice(0, 8)}`
+  );
+}
+
+export function categoryBySlug(slug: string): string | undefined {
+  return menuCategories().find((c) => categorySlug(c) === slug);
+}
+
+export function categoryName(category: string, lang: Lang): string {
+  for (const d of DRINKS) {
+    const name = d.category === category && d.categoryNames?.[lang];
+    if (name) return name;
+  }
+  const key = CATEGORY_MESSAGES[category.toLowerCase()];
+  return key ? t(lang, key) : category;
+}
+
+/**
+ * Build the first-level 2-column keyboard: one button per category that has a drink on sale.
+ * Label: "Category (n)"
+ * callback_data: K|<category slug>|0
+ * A menu with a single category skips straight to its drinks.
+ */
+export function buildMainMenu(lang: Lang = "en"): InlineKeyboardMarkup {
+  const categories = menuCategories();
+  const buttons: InlineKeyboardButton[] = [];
+  for (const c of categories) {
+    const n = DRINKS.filter((d) => d.category === c && d.available).length;
+    if (n) {
+      buttons.push({
+        text: `${categoryName(c, lang)} (${n})`,
+        callback_data: `K|${categorySlug(c)}|0`,
+      });
+    }
+  }
+  if (categories.length === 1) {
+    return buildCategoryMenu(categories[0], 0, lang);
+  }
   return { inline_keyboard: chunk(buttons, 2) };
 }
 
 /**
- * Build the two-button oat choice keyboard for a given drink index.
- * Buttons:
- * - Dairy Milk => C|idx|0
- * - Oat Milk   => C|idx|1
+ * One page of a category's drinks (sold-out drinks are left out), 2 columns.
+ * callback_data: D|<drinkId>
+ * Navigation row: "⬅ Back" (K|, the category list), "‹ Prev" / "Next ›" (K|<slug>|<page>)
  */
-export function buildOatChoice(idx: number): InlineKeyboardMarkup {
-  const drink = drinkByIndex(idx);
-  if (!drink) return { inline_keyboard: [] };
-  const regular: InlineKeyboardButton = {
-    text: `Dairy Milk`,
-    callback_data: `C|${idx}|0`,
-  };
-  const withOat: InlineKeyboardButton = {
-    text: `Oat Milk`,
-    callback_data: `C|${idx}|1`,
-  };
-  return { inline_keyboard: [[regular, withOat]] };
+export function buildCategoryMenu(
+  category: string,
+  page: number,
+  lang: Lang = "en",
+): InlineKeyboardMarkup {
+  const categories = menuCategories();
+  const slug = categorySlug(category);
+  const buttons: InlineKeyboardButton[] = [];
+  for (const d of DRINKS) {
+    if (d.category !== category || !d.available) continue;
+    buttons.push({ text: drinkName(d, lang), callback_data: `D|${d.id}` });
+  }
+  const pages = Math.max(1, Math.ceil(buttons.length / DRINKS_PER_PAGE));
+  const p = Math.min(Math.max(0, Math.floor(page) || 0), pages - 1);
+  const rows = chunk(
+    buttons.slice(p * DRINKS_PER_PAGE, (p + 1) * DRINKS_PER_PAGE),
+    2,
+  );
+
+  const nav: InlineKeyboardButton[] = [];
+  if (categories.length > 1) {
+    nav.push({ text: t(lang, "back"), callback_data: "K|" });
+  }
+  if (p > 0) {
+    nav.push({ text: t(lang, "prev"), callback_data: `K|${slug}|${p - 1}` });
+  }
+  if (p < pages - 1) {
+    nav.push({ text: t(lang, "next"), callback_data: `K|${slug}|${p + 1}` });
+  }
+  if (nav.length) rows.push(nav);
+  return { inline_keyboard: rows };
+}
+
+function optionApplies(option: ModifierOption, drink: Drink): boolean {
+  return option.drinks.some(
+    (d) =>
+      d === "*" ||
+      d === "all" ||
+      (d === "oat" && drink.oat) ||
+      d === drink.id.toLowerCase() ||
+      d === drink.name.toLowerCase(),
+  );
 }
 
 /**
- * Build a two-button BYOC choice keyboard for a given drink index and oat flag.
- * Buttons:
- * - Use shop cup     => B|idx|oat|0
- * - Bring your own   => B|idx|oat|1
+ * Modifier groups that apply to a drink, each narrowed to its applicable options.
+ * Groups left with fewer than two options are skipped (nothing to choose).
+ */
+export function modifierGroupsFor(drink: Drink): ModifierGroup[] {
+  const out: ModifierGroup[] = [];
+  for (const g of MODIFIER_GROUPS) {
+    const options = g.options.filter((o) => optionApplies(o, drink));
+    if (options.length >= 2) out.push({ ...g, options });
+  }
+  return out;
+}
+
+/**
+ * Short hash of the groups and options a drink is asked about. M| picks are
+ * option positions, so a button made before the Modifiers tab changed must not
+ * be read against the new groups.
+ */
+export function modifierVersion(drink: Drink): string {
+  const shape = modifierGroupsFor(drink)
+    .map((g) => `${g.name}:${g.options.map((o) => o.name).join(",")}`)
+    .join(";");
+  return createHash("sha1").update(shape).digest("hex").slice(0, 6);
+}
+
+/**
+ * Parse the picks segment of an M| callback ("1.0.2") into option indexes.
  */
-export function buildByocChoice(
-  idx: number,
-  oat: boolean,
+export function parsePicks(raw: string | undefined): number[] {
+  if (!raw) return [];
+  return raw.split(".").map((x) => Number(x));
+}
+
+/**
+ * Build the keyboard for the next unanswered modifier group of a drink.
+ * Buttons: one per option => M|<drinkId>|<modifierVersion>|<picks so far>.<option index>
+ * Returns an empty keyboard if every group has been answered.
+ */
+export function buildModifierChoice(
+  drinkId: string,
+  picks: number[],
+  lang: Lang = "en",
 ): InlineKeyboardMarkup {
-  const drink = drinkByIndex(idx);
+  const drink = drinkById(drinkId);
   if (!drink) return { inline_keyboard: [] };
-  const noByoc: InlineKeyboardButton = {
-    text: `No`,
-    callback_data: `B|${idx}|${oat ? 1 : 0}|0`,
-  };
-  const withByoc: InlineKeyboardButton = {
-    text: `Yes`,
-    callback_data: `B|${idx}|${oat ? 1 : 0}|1`,
-  };
-  return { inline_keyboard: [[withByoc, noByoc]] };
+  const group = modifierGroupsFor(drink)[picks.length];
+  if (!group) return { inline_keyboard: [] };
+  const version = modifierVersion(drink);
+  const buttons: InlineKeyboardButton[] = group.options.map((o, i) => ({
+    text: o.delta
+      ? `${optionName(o, lang)} (${fmtDelta(o.delta)})`
+      : optionName(o, lang),
+    callback_data: `M|${drink.id}|${version}|${[...picks, i].join(".")}`,
+  }));
+  return { inline_keyboard: chunk(buttons, 2) };
+}
+
+/**
+ * Turn a complete set of picks into the chosen modifiers.
+ * Returns null if the picks don't line up with the drink's current groups.
+ */
+export function resolveModifiers(
+  drinkId: string,
+  picks: number[],
+): SelectedModifier[] | null {
+  const drink = drinkById(drinkId);
+  if (!drink) return null;
+  const groups = modifierGroupsFor(drink);
+  if (picks.length !== groups.length) return null;
+  const out: SelectedModifier[] = [];
+  for (let i = 0; i < groups.length; i++) {
+    const option = groups[i].options[picks[i]];
+    if (!option) return null;
+    out.push({
+      group: groups[i].name,
+      option: option.name,
+      delta: option.delta,
+      isDefault: picks[i] === 0,
+    });
+  }
+  return out;
 }
 
 /**
- * Bullet list text of all drinks with prices.
- * Shows price adjustments note at the top.
+ * Signed price delta, e.g. "+$0.50" or "−$0.50".
  */
-export function listText(): string {
-  const up = OAT_UPCHARGE.toFixed(2);
-  const disc = BYOC_DISCOUNT.toFixed(2);
-  const header = `(oat milk +${up}, BYOC -${disc})`;
-  const lines = DRINKS.map((d) => `• ${d.name} — ${fmtMoney(d.price)}`);
-  return [header, ...lines].join("\n");
+export function fmtDelta(n: number): string {
+  return n < 0 ? `−${fmtMoney(-n)}` : `+${fmtMoney(n)}`;
+}
+
+/**
+ * Bullet list text of all drinks with prices, grouped under bold category headings
+ * (HTML: sold-out drinks use <s>). Shows price adjustments note at the top.
+ */
+export function listText(lang: Lang = "en"): string {
+  const notes: string[] = [];
+  for (const g of MODIFIER_GROUPS) {
+    for (const o of g.options) {
+      if (o.delta) {
+        notes.push(`${escapeHtml(optionName(o, lang))} ${fmtDelta(o.delta)}`);
+      }
+    }
+  }
+  const sections = menuCategories().map((c) => {
+    const lines = DRINKS.filter((d) => d.category === c).map((d) => {
+      const name = escapeHtml(drinkName(d, lang));
+      return d.available
+        ? `• ${name} — ${fmtMoney(d.price)}`
+        : `• <s>${name} — ${fmtMoney(d.price)}</s> ${t(lang, "soldOutMark")}`;
+    });
+    return [`<b>${escapeHtml(categoryName(c, lang))}</b>`, ...lines].join("\n");
+  });
+  return [notes.length ? `(${notes.join(", ")})` : "", ...sections]
+    .filter(Boolean)
+    .join("\n\n");
 }
 
 /**
@@ -229,27 +939,195 @@ export function chunk<T>(arr: readonly T[], size: number): T[][] {
 }
 
 /**
- * Build a simple confirmation keyboard without quantity controls.
+ * Build the cart keyboard shown after each line is added.
  *
  * Buttons:
- * - Confirm: "Y|<idx>|<oatFlag 0|1>|<byocFlag 0|1>"
- * - Cancel:  "N|<idx>"
+ * - Add item:    "A|"  (back to the drinks menu, cart kept)
+ * - Confirm:     "Y|"  (save every line under one order id)
+ * - Customer:    "U|"  (bill the cart to a customer's @username; staff carts only)
+ * - Promo code:  "C|"  (ask for a code from the Promotions tab)
+ * - Remove last: "R|"
+ * - Cancel:      "X|"  (empty the cart)
+ * - Free drink:  "G|"  (only when the tagged customer has a stamp-card reward to redeem)
+ * A customer's own cart (selfOrder) confirms with "Send order" instead.
+ */
+export function buildCartKeyboard(
+  selfOrder = false,
+  reward = false,
+  lang: Lang = "en",
+): InlineKeyboardMarkup {
+  const middleRow: InlineKeyboardButton[] = [
+    { text: t(lang, "promoCodeButton"), callback_data: "C|" },
+  ];
+  if (!selfOrder) {
+    middleRow.unshift({ text: t(lang, "customerButton"), callback_data: "U|" });
+  }
+  return {
+    inline_keyboard: [
+      [
+        { text: t(lang, "addItem"), callback_data: "A|" },
+        {
+          text: t(lang, selfOrder ? "sendOrder" : "confirm"),
+          callback_data: "Y|",
+        },
+      ],
+      middleRow,
+      [
+        { text: t(lang, "removeLast"), callback_data: "R|" },
+        { text: t(lang, "cancel"), callback_data: "X|" },
+      ],
+      ...(reward
+        ? [[{ text: t(lang, "redeemFree"), callback_data: "G|" }]]
+        : []),
+    ],
+  };
+}
+
+/**
+ * Build the /history keyboard: one row per listed order, numbered like the text.
  *
- * Note: Quantity should be entered by the user via text (limit externally).
+ * Buttons:
+ * - Void:   "V|<key>|<limit>" (limit lets the list be redrawn the same length)
+ * - Repeat: "H|<key>"         (start a new cart with the same lines)
+ * Voided orders only get Repeat.
+ */
+export function buildHistoryKeyboard(
+  entries: Array<{ key: string; voided: boolean }>,
+  limit: number,
+  lang: Lang = "en",
+): InlineKeyboardMarkup {
+  return {
+    inline_keyboard: entries.map((e, i) => {
+      const repeat = {
+        text: t(lang, "repeatButton", { n: i + 1 }),
+        callback_data: `H|${e.key}`,
+      };
+      if (e.voided) return [repeat];
+      return [
+        {
+          text: t(lang, "voidButton", { n: i + 1 }),
+          callback_data: `V|${e.key}|${limit}`,
+        },
+        repeat,
+      ];
+    }),
+  };
+}
+
+/**
+ * Buttons on a customer's order request in the staff chat:
+ * - Accept: "T|a|<ticketId>" (save it to the Orders sheet)
+ * - Reject: "T|r|<ticketId>"
  */
-export function buildConfirmKeyboard(
-  idx: number,
-  oat: boolean,
-  byoc: boolean = false,
-  qty: number = 1,
+export function buildTicketKeyboard(
+  ticketId: string,
+  lang: Lang = "en",
 ): InlineKeyboardMarkup {
-  const confirm: InlineKeyboardButton = {
-    text: "✅ Confirm",
-    callback_data: `Y|${idx}|${oat ? 1 : 0}|${byoc ? 1 : 0}`,
+  return {
+    inline_keyboard: [
+      [
+        { text: t(lang, "accept"), callback_data: `T|a|${ticketId}` },
+        { text: t(lang, "reject"), callback_data: `T|r|${ticketId}` },
+      ],
+    ],
   };
-  const cancel: InlineKeyboardButton = {
-    text: "↩ Cancel",
-    callback_data: `N|${idx}`,
+}
+
+/**
+ * /language choices, each language named in itself ("✓" on the current one):
+ * - Language: "L|<code>"
+ * - Follow Telegram's language: "L|auto"
+ */
+export function buildLanguageKeyboard(current: Lang): InlineKeyboardMarkup {
+  const buttons = (Object.keys(LANGUAGES) as Lang[]).map((l) => ({
+    text: l === current ? `✓ ${LANGUAGES[l]}` : LANGUAGES[l],
+    callback_data: `L|${l}`,
+  }));
+  return {
+    inline_keyboard: [
+      ...chunk(buttons, 2),
+      [{ text: t(current, "languageAuto"), callback_data: "L|auto" }],
+    ],
   };
-  return { inline_keyboard: [[confirm, cancel]] };
+}
+
+const STATUS_ICONS: Record<string, string> = {
+  Queued: "🕒",
+  Preparing: "👨‍🍳",
+  Ready: "🔔",
+  Collected: "✅",
+  Voided: "✖",
+};
+
+const STATUS_NAMES = {
+  Queued: "statusQueued",
+  Preparing: "statusPreparing",
+  Ready: "statusReady",
+  Collected: "statusCollected",
+  Voided: "statusVoided",
+} as const;
+
+/**
+ * "Ready", or its translation; statuses the bot doesn't know are shown as saved.
+ */
+export function statusName(status: string, lang: Lang = "en"): string {
+  const key = STATUS_NAMES[status as keyof typeof STATUS_NAMES];
+  return key ? t(lang, key) : status;
+}
+
+export function statusLabel(status: string, lang: Lang = "en"): string {
+  const icon = STATUS_ICONS[status];
+  const name = statusName(status, lang);
+  return icon ? `${icon} ${name}` : name;
+}
+
+// Status codes used in S| callbacks, and which steps each status can move to
+const STATUS_CODES: Partial<Record<OrderStatus, string>> = {
+  Preparing: "p",
+  Ready: "r",
+  Collected: "c",
+};
+const NEXT_STATUSES: Partial<Record<OrderStatus, OrderStatus[]>> = {
+  Queued: ["Preparing", "Ready"],
+  Preparing: ["Ready"],
+  Ready: ["Collected"],
+};
+
+/**
+ * The status an S| code moves to, if `from` allows that step (stale buttons can't move an order back).
+ */
+export function statusStep(
+  from: OrderStatus,
+  code: string,
+): OrderStatus | null {
+  const next = NEXT_STATUSES[from] || [];
+  return next.find((st) => STATUS_CODES[st] === code) || null;
+}
+
+/**
+ * Buttons on a saved order in the staff chat:
+ * - Next status: "S|<orderId>|<p|r|c>" (only the steps valid from `status`)
+ * - Mark paid:   "P|<orderId>"         (when `payable`: tagged to a customer and not yet paid)
+ * Collected and voided orders have no status buttons.
+ */
+export function buildStatusKeyboard(
+  orderId: string,
+  status: OrderStatus,
+  payable: boolean,
+  lang: Lang = "en",
+): InlineKeyboardMarkup {
+  const rows: InlineKeyboardButton[][] = [];
+  const next = NEXT_STATUSES[status] || [];
+  if (next.length) {
+    rows.push(
+      next.map((st) => ({
+        text: statusLabel(st, lang),
+        callback_data: `S|${orderId}|${STATUS_CODES[st]}`,
+      })),
+    );
+  }
+  if (payable) {
+    rows.push([{ text: t(lang, "markPaid"), callback_data: `P|${orderId}` }]);
+  }
+  return { inline_keyboard: rows };
 }
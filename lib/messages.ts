@@ -0,0 +1,575 @@
+/**
+ * The bot's message catalog: every text customers and staff see in Telegram,
+ * in each supported language. Look messages up with t() from lib/i18n.ts.
+ *
+ * Exports:
+ * - Message type: a string, or { one, other } forms picked by the `count` parameter
+ * - MessageKey type
+ * - en: every message (the fallback for missing translations)
+ * - zh, ms: Chinese and Malay translations
+ *
+ * Notes:
+ * - {name} placeholders are filled from t()'s parameters, HTML-escaped; unknown ones are left as is.
+ * - Messages are sent with parse_mode HTML: write "<" and "&" as &lt; and &amp;.
+ * - Reports, the daily summary, /reloadmenu results and admin alerts are staff
+ *   tools and stay in English (see lib/report.ts, lib/history.ts, lib/inventory.ts).
+ */
+
+export type Message = string | { one: string; other: string };
+
+export const en = {
+  // General
+  start: "Use /menu to view our drinks menu!",
+  notAuthorized: "Not authorized. Use /menu to view our drinks menu!",
+  notAuthorizedShort: "Not authorized",
+  couldntSave: "⚠ couldn't save, try again",
+  couldntSaveShort: "⚠ couldn't save",
+  tryAgain: "⚠ try again",
+
+  // Menu and ordering
+  chooseDrink: "Choose a drink:",
+  orderFor: "Order for {customer}. Choose a drink:",
+  whatWouldYouLike: "What would you like?",
+  soldOutMark: "(sold out)",
+  back: "⬅ Back",
+  prev: "‹ Prev",
+  next: "Next ›",
+  categoryCoffee: "Coffee",
+  categoryMatcha: "Matcha",
+  categoryTea: "Tea",
+  categoryOther: "Other",
+  unknownItem: "Unknown item",
+  drinkSoldOut: "Sorry, {drink} is sold out",
+  qtyPrompt: "Enter quantity (1–10):",
+  qtyInvalid: "Invalid. Please respond with a number between 1 - 10.",
+  milkPrompt: "Milk Option:",
+  dairyMilk: "Dairy milk",
+  oatMilk: "Oat milk",
+  cupPrompt: "Bring your own cup?",
+  shopCup: "Shop cup",
+  byoc: "BYOC",
+
+  // Cart
+  cart: "Cart:",
+  cartRepeat: "Cart (repeat):",
+  total: "Total: {amount}",
+  customer: "Customer: {customer}",
+  free: "🎁 free",
+  addItem: "➕ Add item",
+  confirm: "✅ Confirm",
+  sendOrder: "📨 Send order",
+  customerButton: "👤 Customer",
+  promoCodeButton: "🏷 Promo code",
+  removeLast: "⌫ Remove last",
+  cancel: "↩ Cancel",
+  redeemFree: "🎁 Redeem free drink",
+  customerPrompt: "Reply with the customer's @username (or - for none):",
+  customerInvalid:
+    "That doesn't look like a username. Reply with the customer's @username (or - for none):",
+  promoPrompt: "Reply with your promo code (or - for none):",
+  promoInvalid:
+    "“{code}” isn't a valid code right now. Reply with a promo code (or - for none):",
+  cartExpired: "Cart expired, please start again",
+  cartExpiredLog: "Cart expired, please /log again",
+  orderCancelled: "Order cancelled.",
+  soldOutRemove: "{drink} is sold out — remove it to continue",
+  goneRemove: "{drink} is no longer on the menu — remove it to continue",
+  pricesChanged: "⚠ Prices changed — check the cart and confirm again:",
+  pricesChangedShort: "Prices changed, please check",
+  optionsChanged: "The options for this drink changed, please choose again",
+  savedOrder: "Saved order {orderId}:",
+
+  // Stamp cards
+  stamps: "☕ Stamps: {dots} {stamps}/{size}",
+  stampsOf: "☕ {customer}'s stamps: {dots} {stamps}/{size}",
+  freeDrinksToRedeem: {
+    one: "🎁 1 free drink to redeem — ask the barista.",
+    other: "🎁 {count} free drinks to redeem — ask the barista.",
+  },
+  freeDrinksOf: {
+    one: "🎁 1 free drink to redeem.",
+    other: "🎁 {count} free drinks to redeem.",
+  },
+  stampsLeft: "{count} more for a free drink.",
+  freeDrinksNote: {
+    one: "🎁 {customer} has 1 free drink to redeem",
+    other: "🎁 {customer} has {count} free drinks to redeem",
+  },
+  noFreeDrink: "No free drink left to redeem",
+  noFreeDrinkOnCard: "No free drink left on the card — remove it to continue",
+  addFreeDrinkFirst: "Add the free drink to the cart first",
+  freeDrinkAdded: "🎁 Free drink added",
+  stampsOwnOnly: "You can only check your own stamps.",
+  noStampCard: "There's no stamp card.",
+  stampsFailed: "⚠ couldn't check the stamps, try again",
+
+  // Customer orders (/order)
+  orderInPrivate: "Message me directly and send /order there.",
+  orderingUnavailable: "Ordering isn't available right now, sorry.",
+  orderingUnavailableShort: "Ordering isn't available right now",
+  orderWaiting: "You already have an order waiting for the barista",
+  sendFailed: "⚠ couldn't send, try again",
+  orderSent: "Order {ticketId} sent! Waiting for the barista…",
+  ticketNew: "🆕 Order request {ticketId}",
+  ticketAccepted: "✅ Order {ticketId} accepted by {by}",
+  ticketRejected: "✖ Order {ticketId} rejected by {by}",
+  ticketHandled: "Already handled or expired",
+  accept: "✅ Accept",
+  reject: "✖ Reject",
+  orderAccepted: "✅ Your order {ticketId} was accepted — we're on it!",
+  orderRejected: "Sorry, we couldn't take your order {ticketId} right now.",
+  orderReady: "🔔 Your order {orderId} is ready for pickup!",
+
+  // Order status
+  statusLine: "Status: {status}",
+  statusQueued: "Queued",
+  statusPreparing: "Preparing",
+  statusReady: "Ready",
+  statusCollected: "Collected",
+  statusVoided: "Voided",
+  alreadyStatus: "Already {status}",
+  orderNotFound: "Order not found",
+  orderVoided: "Order was voided",
+  markPaid: "💵 Mark paid",
+  markedPaid: "Marked paid",
+  alreadyPaid: "Already paid",
+
+  // Payments and balances
+  youOwe: "You owe {amount}.",
+  theyOwe: "{customer} owes {amount}.",
+  youHaveCredit: "You have {amount} in credit.",
+  theyHaveCredit: "{customer} has {amount} in credit.",
+  youAreSettled: "You are all settled up.",
+  theyAreSettled: "{customer} is all settled up.",
+  balanceTotals: "Orders: {ordered} · Paid: {paid}",
+  usePay: "Use /pay to settle.",
+  balanceOwnOnly: "You can only check your own balance.",
+  balanceFailed: "⚠ couldn't check the balance, try again",
+  payNotConfigured: "Payment link is not configured.",
+  payNow: "Pay now",
+  payLink: "Pay for your drinks using the link below:\n{url}",
+  paidUsage: "Usage: /paid @user amount [note]",
+  paymentRecorded: "Recorded {amount} from {customer}. Balance: {balance}",
+  paymentThanks: "Thanks! We received {amount}. Your balance is now {balance}.",
+  balanceReminder: "Friendly reminder: your tab is {amount}.",
+  payHere: "Pay here: {url}",
+
+  // Staff tools
+  logUsage: "Usage: /log [@customer]",
+  soldOutList: "Sold out: {drinks}",
+  nothingSoldOut: "Nothing is sold out.",
+  availabilityUsage: "Usage: {command} &lt;drink&gt;",
+  whichOne: "Which one? {drinks}",
+  noSuchDrink: "No drink called “{query}” on the menu.",
+  alreadyOnSale: "{drink} is already on sale.",
+  alreadySoldOut: "{drink} is already sold out.",
+  backOnMenu: "✅ {drink} is back on the menu.",
+  nowSoldOut: "🚫 {drink} is sold out — hidden from the menu until /restock.",
+  undoNothing: "No recent order to undo.",
+  undoAlreadyVoided: "That order was already voided.",
+  undoDone: "Voided order {orderId}: {lines}.",
+  undoDoneLast: "Voided your last order.",
+  undoFailed: "⚠ couldn't undo, try again",
+  historyUsage: "Usage: /history [count]",
+  historyAll: "Last {count} orders in this chat:",
+  historyOwn: "Your last {count} orders:",
+  historyFailed: "⚠ couldn't load the history, try again",
+  voidButton: "✖ Void {n}",
+  repeatButton: "🔁 Repeat {n}",
+  voided: "Voided",
+  alreadyVoided: "Already voided",
+  voidFailed: "⚠ couldn't void",
+  onlyOwnersVoid: "Only owners can void others' orders",
+  repeatGone: "Those drinks are no longer on the menu",
+  repeatMissing: "(No longer on the menu: {drinks})",
+  repeatFailed: "⚠ couldn't repeat",
+  reportUsage: "Usage: /report today | week | YYYY-MM-DD..YYYY-MM-DD",
+  reportFailed: "⚠ couldn't build the report, try again",
+  grantUsage:
+    "Usage: /grant @user owner|barista|viewer (or reply to their message)",
+  revokeUsage: "Usage: /revoke @user (or reply to their message)",
+  unknownUser:
+    "I don't know {who} yet. Ask them to send me a message first, or use their numeric user id.",
+  ownRole: "You can't change your own role.",
+  roleGranted: "{who} is now {role}.",
+  roleOwner: "an owner",
+  roleBarista: "a barista",
+  roleViewer: "a viewer",
+  roleRevoked: "{who} no longer has a staff role.",
+  roleNone: "{who} has no staff role to remove.",
+
+  // Language
+  languageCurrent: "Your language: {language}. Choose one:",
+  languageAuto: "🌐 Same as Telegram",
+  languageSet: "✅ Language set to {language}.",
+  languageFollow: "✅ Following your Telegram language ({language}).",
+  languageUsage: "Usage: /language [{codes}|auto]",
+  languagePrivate: "Message me directly to change your language.",
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof en;
+
+export const zh: Partial<Record<MessageKey, Message>> = {
+  // General
+  start: "发送 /menu 查看饮品菜单！",
+  notAuthorized: "没有权限。发送 /menu 查看饮品菜单！",
+  notAuthorizedShort: "没有权限",
+  couldntSave: "⚠ 保存失败，请重试",
+  couldntSaveShort: "⚠ 保存失败",
+  tryAgain: "⚠ 请重试",
+
+  // Menu and ordering
+  chooseDrink: "请选择饮品：",
+  orderFor: "为 {customer} 点单。请选择饮品：",
+  whatWouldYouLike: "想喝点什么？",
+  soldOutMark: "（已售罄）",
+  back: "⬅ 返回",
+  prev: "‹ 上一页",
+  next: "下一页 ›",
+  categoryCoffee: "咖啡",
+  categoryMatcha: "抹茶",
+  categoryTea: "茶",
+  categoryOther: "其他",
+  unknownItem: "未知饮品",
+  drinkSoldOut: "抱歉，{drink}已售罄",
+  qtyPrompt: "请输入数量（1–10）：",
+  qtyInvalid: "无效。请回复 1 到 10 之间的数字。",
+  milkPrompt: "选择奶类：",
+  dairyMilk: "牛奶",
+  oatMilk: "燕麦奶",
+  cupPrompt: "自带杯子吗？",
+  shopCup: "店内杯",
+  byoc: "自带杯",
+
+  // Cart
+  cart: "购物车：",
+  cartRepeat: "购物车（再来一单）：",
+  total: "合计：{amount}",
+  customer: "顾客：{customer}",
+  free: "🎁 免费",
+  addItem: "➕ 添加饮品",
+  confirm: "✅ 确认",
+  sendOrder: "📨 提交订单",
+  customerButton: "👤 顾客",
+  promoCodeButton: "🏷 优惠码",
+  removeLast: "⌫ 删除上一项",
+  cancel: "↩ 取消",
+  redeemFree: "🎁 兑换免费饮品",
+  customerPrompt: "请回复顾客的 @用户名（没有请回复 -）：",
+  customerInvalid: "这看起来不像用户名。请回复顾客的 @用户名（没有请回复 -）：",
+  promoPrompt: "请回复优惠码（没有请回复 -）：",
+  promoInvalid: "“{code}”目前不是有效的优惠码。请回复优惠码（没有请回复 -）：",
+  cartExpired: "购物车已过期，请重新开始",
+  cartExpiredLog: "购物车已过期，请重新发送 /log",
+  orderCancelled: "订单已取消。",
+  soldOutRemove: "{drink}已售罄，请先移除再继续",
+  goneRemove: "{drink}已不在菜单上，请先移除再继续",
+  pricesChanged: "⚠ 价格有变动，请检查购物车后再次确认：",
+  pricesChangedShort: "价格有变动，请检查",
+  optionsChanged: "这款饮品的选项有变动，请重新选择",
+  savedOrder: "已保存订单 {orderId}：",
+
+  // Stamp cards
+  stamps: "☕ 集章：{dots} {stamps}/{size}",
+  stampsOf: "☕ {customer} 的集章：{dots} {stamps}/{size}",
+  freeDrinksToRedeem: "🎁 有 {count} 杯免费饮品可兑换，请告诉咖啡师。",
+  freeDrinksOf: "🎁 有 {count} 杯免费饮品可兑换。",
+  stampsLeft: "再集 {count} 个章可得一杯免费饮品。",
+  freeDrinksNote: "🎁 {customer} 有 {count} 杯免费饮品可兑换",
+  noFreeDrink: "没有可兑换的免费饮品",
+  noFreeDrinkOnCard: "集章卡上没有免费饮品了，请先移除再继续",
+  addFreeDrinkFirst: "请先把要免费的饮品加入购物车",
+  freeDrinkAdded: "🎁 已加入免费饮品",
+  stampsOwnOnly: "你只能查看自己的集章。",
+  noStampCard: "目前没有集章卡。",
+  stampsFailed: "⚠ 无法查看集章，请重试",
+
+  // Customer orders (/order)
+  orderInPrivate: "请私聊我，并在私聊中发送 /order。",
+  orderingUnavailable: "抱歉，目前无法点单。",
+  orderingUnavailableShort: "目前无法点单",
+  orderWaiting: "你已有一个订单在等待咖啡师处理",
+  sendFailed: "⚠ 发送失败，请重试",
+  orderSent: "订单 {ticketId} 已提交！正在等待咖啡师…",
+  ticketNew: "🆕 点单请求 {ticketId}",
+  ticketAccepted: "✅ 订单 {ticketId} 已由 {by} 接单",
+  ticketRejected: "✖ 订单 {ticketId} 已被 {by} 拒绝",
+  ticketHandled: "已处理或已过期",
+  accept: "✅ 接单",
+  reject: "✖ 拒绝",
+  orderAccepted: "✅ 你的订单 {ticketId} 已被接单，正在制作！",
+  orderRejected: "抱歉，我们现在无法接你的订单 {ticketId}。",
+  orderReady: "🔔 你的订单 {orderId} 已做好，可以取餐了！",
+
+  // Order status
+  statusLine: "状态：{status}",
+  statusQueued: "排队中",
+  statusPreparing: "制作中",
+  statusReady: "可取餐",
+  statusCollected: "已取餐",
+  statusVoided: "已作废",
+  alreadyStatus: "已经是{status}",
+  orderNotFound: "找不到订单",
+  orderVoided: "订单已作废",
+  markPaid: "💵 标记已付款",
+  markedPaid: "已标记付款",
+  alreadyPaid: "已经付过款",
+
+  // Payments and balances
+  youOwe: "你欠 {amount}。",
+  theyOwe: "{customer} 欠 {amount}。",
+  youHaveCredit: "你有 {amount} 余额。",
+  theyHaveCredit: "{customer} 有 {amount} 余额。",
+  youAreSettled: "你已全部结清。",
+  theyAreSettled: "{customer} 已全部结清。",
+  balanceTotals: "订单：{ordered} · 已付：{paid}",
+  usePay: "发送 /pay 结账。",
+  balanceOwnOnly: "你只能查看自己的余额。",
+  balanceFailed: "⚠ 无法查看余额，请重试",
+  payNotConfigured: "尚未设置付款链接。",
+  payNow: "立即付款",
+  payLink: "请通过以下链接支付饮品费用：\n{url}",
+  paidUsage: "用法：/paid @用户 金额 [备注]",
+  paymentRecorded: "已记录 {customer} 付款 {amount}。余额：{balance}",
+  paymentThanks: "谢谢！我们已收到 {amount}。你现在的余额是 {balance}。",
+  balanceReminder: "温馨提醒：你的账单为 {amount}。",
+  payHere: "在这里付款：{url}",
+
+  // Staff tools
+  logUsage: "用法：/log [@顾客]",
+  soldOutList: "已售罄：{drinks}",
+  nothingSoldOut: "没有售罄的饮品。",
+  availabilityUsage: "用法：{command} &lt;饮品&gt;",
+  whichOne: "哪一个？{drinks}",
+  noSuchDrink: "菜单上没有叫“{query}”的饮品。",
+  alreadyOnSale: "{drink}已经在售。",
+  alreadySoldOut: "{drink}已经售罄。",
+  backOnMenu: "✅ {drink}已重新上架。",
+  nowSoldOut: "🚫 {drink}已售罄，在 /restock 之前不会出现在菜单上。",
+  undoNothing: "没有可撤销的近期订单。",
+  undoAlreadyVoided: "该订单已经作废。",
+  undoDone: "已作废订单 {orderId}：{lines}。",
+  undoDoneLast: "已作废你的上一个订单。",
+  undoFailed: "⚠ 撤销失败，请重试",
+  historyUsage: "用法：/history [数量]",
+  historyAll: "本聊天最近 {count} 个订单：",
+  historyOwn: "你最近的 {count} 个订单：",
+  historyFailed: "⚠ 无法加载历史记录，请重试",
+  voidButton: "✖ 作废 {n}",
+  repeatButton: "🔁 再来 {n}",
+  voided: "已作废",
+  alreadyVoided: "已经作废",
+  voidFailed: "⚠ 作废失败",
+  onlyOwnersVoid: "只有店主可以作废别人的订单",
+  repeatGone: "这些饮品已不在菜单上",
+  repeatMissing: "（已不在菜单上：{drinks}）",
+  repeatFailed: "⚠ 无法再来一单",
+  reportUsage: "用法：/report today | week | YYYY-MM-DD..YYYY-MM-DD",
+  reportFailed: "⚠ 无法生成报表，请重试",
+  grantUsage: "用法：/grant @用户 owner|barista|viewer（或回复对方的消息）",
+  revokeUsage: "用法：/revoke @用户（或回复对方的消息）",
+  unknownUser:
+    "我还不认识 {who}。请让对方先给我发一条消息，或使用对方的数字用户 ID。",
+  ownRole: "你不能更改自己的角色。",
+  roleGranted: "{who} 现在是{role}。",
+  roleOwner: "店主",
+  roleBarista: "咖啡师",
+  roleViewer: "查看者",
+  roleRevoked: "{who} 不再拥有员工角色。",
+  roleNone: "{who} 没有可移除的员工角色。",
+
+  // Language
+  languageCurrent: "你的语言：{language}。请选择：",
+  languageAuto: "🌐 跟随 Telegram",
+  languageSet: "✅ 语言已设为{language}。",
+  languageFollow: "✅ 将跟随你的 Telegram 语言（{language}）。",
+  languageUsage: "用法：/language [{codes}|auto]",
+  languagePrivate: "请私聊我来更改语言。",
+};
+
+export const ms: Partial<Record<MessageKey, Message>> = {
+  // General
+  start: "Guna /menu untuk melihat menu minuman kami!",
+  notAuthorized: "Tiada kebenaran. Guna /menu untuk melihat menu minuman kami!",
+  notAuthorizedShort: "Tiada kebenaran",
+  couldntSave: "⚠ tidak dapat disimpan, cuba lagi",
+  couldntSaveShort: "⚠ tidak dapat disimpan",
+  tryAgain: "⚠ cuba lagi",
+
+  // Menu and ordering
+  chooseDrink: "Pilih minuman:",
+  orderFor: "Pesanan untuk {customer}. Pilih minuman:",
+  whatWouldYouLike: "Anda mahu minum apa?",
+  soldOutMark: "(habis dijual)",
+  back: "⬅ Kembali",
+  prev: "‹ Sebelum",
+  next: "Seterusnya ›",
+  categoryCoffee: "Kopi",
+  categoryMatcha: "Matcha",
+  categoryTea: "Teh",
+  categoryOther: "Lain-lain",
+  unknownItem: "Item tidak dikenali",
+  drinkSoldOut: "Maaf, {drink} sudah habis dijual",
+  qtyPrompt: "Masukkan kuantiti (1–10):",
+  qtyInvalid: "Tidak sah. Sila balas dengan nombor antara 1 - 10.",
+  milkPrompt: "Pilihan susu:",
+  dairyMilk: "Susu lembu",
+  oatMilk: "Susu oat",
+  cupPrompt: "Bawa cawan sendiri?",
+  shopCup: "Cawan kedai",
+  byoc: "Cawan sendiri",
+
+  // Cart
+  cart: "Troli:",
+  cartRepeat: "Troli (ulang):",
+  total: "Jumlah: {amount}",
+  customer: "Pelanggan: {customer}",
+  free: "🎁 percuma",
+  addItem: "➕ Tambah item",
+  confirm: "✅ Sahkan",
+  sendOrder: "📨 Hantar pesanan",
+  customerButton: "👤 Pelanggan",
+  promoCodeButton: "🏷 Kod promo",
+  removeLast: "⌫ Buang terakhir",
+  cancel: "↩ Batal",
+  redeemFree: "🎁 Tebus minuman percuma",
+  customerPrompt: "Balas dengan @username pelanggan (atau - jika tiada):",
+  customerInvalid:
+    "Itu bukan username. Balas dengan @username pelanggan (atau - jika tiada):",
+  promoPrompt: "Balas dengan kod promo anda (atau - jika tiada):",
+  promoInvalid:
+    "“{code}” bukan kod yang sah buat masa ini. Balas dengan kod promo (atau - jika tiada):",
+  cartExpired: "Troli telah tamat tempoh, sila mula semula",
+  cartExpiredLog: "Troli telah tamat tempoh, sila /log semula",
+  orderCancelled: "Pesanan dibatalkan.",
+  soldOutRemove: "{drink} sudah habis dijual — buang untuk teruskan",
+  goneRemove: "{drink} tiada lagi dalam menu — buang untuk teruskan",
+  pricesChanged: "⚠ Harga telah berubah — semak troli dan sahkan semula:",
+  pricesChangedShort: "Harga telah berubah, sila semak",
+  optionsChanged: "Pilihan untuk minuman ini telah berubah, sila pilih semula",
+  savedOrder: "Pesanan {orderId} disimpan:",
+
+  // Stamp cards
+  stamps: "☕ Setem: {dots} {stamps}/{size}",
+  stampsOf: "☕ Setem {customer}: {dots} {stamps}/{size}",
+  freeDrinksToRedeem:
+    "🎁 {count} minuman percuma untuk ditebus — beritahu barista.",
+  freeDrinksOf: "🎁 {count} minuman percuma untuk ditebus.",
+  stampsLeft: "{count} lagi untuk minuman percuma.",
+  freeDrinksNote: "🎁 {customer} ada {count} minuman percuma untuk ditebus",
+  noFreeDrink: "Tiada minuman percuma untuk ditebus",
+  noFreeDrinkOnCard:
+    "Tiada lagi minuman percuma pada kad — buang untuk teruskan",
+  addFreeDrinkFirst: "Tambah minuman percuma ke troli dahulu",
+  freeDrinkAdded: "🎁 Minuman percuma ditambah",
+  stampsOwnOnly: "Anda hanya boleh menyemak setem anda sendiri.",
+  noStampCard: "Tiada kad setem.",
+  stampsFailed: "⚠ tidak dapat menyemak setem, cuba lagi",
+
+  // Customer orders (/order)
+  orderInPrivate: "Mesej saya terus dan hantar /order di sana.",
+  orderingUnavailable: "Maaf, pesanan tidak dapat dibuat buat masa ini.",
+  orderingUnavailableShort: "Pesanan tidak dapat dibuat buat masa ini",
+  orderWaiting: "Anda sudah ada pesanan yang menunggu barista",
+  sendFailed: "⚠ tidak dapat dihantar, cuba lagi",
+  orderSent: "Pesanan {ticketId} dihantar! Menunggu barista…",
+  ticketNew: "🆕 Permintaan pesanan {ticketId}",
+  ticketAccepted: "✅ Pesanan {ticketId} diterima oleh {by}",
+  ticketRejected: "✖ Pesanan {ticketId} ditolak oleh {by}",
+  ticketHandled: "Sudah diuruskan atau tamat tempoh",
+  accept: "✅ Terima",
+  reject: "✖ Tolak",
+  orderAccepted:
+    "✅ Pesanan anda {ticketId} telah diterima — kami sedang menyediakannya!",
+  orderRejected:
+    "Maaf, kami tidak dapat menerima pesanan anda {ticketId} sekarang.",
+  orderReady: "🔔 Pesanan anda {orderId} sedia untuk diambil!",
+
+  // Order status
+  statusLine: "Status: {status}",
+  statusQueued: "Dalam giliran",
+  statusPreparing: "Sedang disediakan",
+  statusReady: "Sedia",
+  statusCollected: "Sudah diambil",
+  statusVoided: "Dibatalkan",
+  alreadyStatus: "Sudah {status}",
+  orderNotFound: "Pesanan tidak dijumpai",
+  orderVoided: "Pesanan telah dibatalkan",
+  markPaid: "💵 Tanda dibayar",
+  markedPaid: "Ditanda dibayar",
+  alreadyPaid: "Sudah dibayar",
+
+  // Payments and balances
+  youOwe: "Anda berhutang {amount}.",
+  theyOwe: "{customer} berhutang {amount}.",
+  youHaveCredit: "Anda ada kredit {amount}.",
+  theyHaveCredit: "{customer} ada kredit {amount}.",
+  youAreSettled: "Semua bayaran anda sudah selesai.",
+  theyAreSettled: "Semua bayaran {customer} sudah selesai.",
+  balanceTotals: "Pesanan: {ordered} · Dibayar: {paid}",
+  usePay: "Guna /pay untuk menjelaskan bayaran.",
+  balanceOwnOnly: "Anda hanya boleh menyemak baki anda sendiri.",
+  balanceFailed: "⚠ tidak dapat menyemak baki, cuba lagi",
+  payNotConfigured: "Pautan pembayaran belum ditetapkan.",
+  payNow: "Bayar sekarang",
+  payLink: "Bayar minuman anda melalui pautan di bawah:\n{url}",
+  paidUsage: "Penggunaan: /paid @pengguna jumlah [nota]",
+  paymentRecorded: "{amount} daripada {customer} direkodkan. Baki: {balance}",
+  paymentThanks:
+    "Terima kasih! Kami telah menerima {amount}. Baki anda kini {balance}.",
+  balanceReminder: "Peringatan mesra: bil anda ialah {amount}.",
+  payHere: "Bayar di sini: {url}",
+
+  // Staff tools
+  logUsage: "Penggunaan: /log [@pelanggan]",
+  soldOutList: "Habis dijual: {drinks}",
+  nothingSoldOut: "Tiada yang habis dijual.",
+  availabilityUsage: "Penggunaan: {command} &lt;minuman&gt;",
+  whichOne: "Yang mana? {drinks}",
+  noSuchDrink: "Tiada minuman bernama “{query}” dalam menu.",
+  alreadyOnSale: "{drink} sudah pun dijual.",
+  alreadySoldOut: "{drink} sudah pun habis dijual.",
+  backOnMenu: "✅ {drink} kembali dalam menu.",
+  nowSoldOut:
+    "🚫 {drink} habis dijual — disembunyikan daripada menu sehingga /restock.",
+  undoNothing: "Tiada pesanan terkini untuk dibatalkan.",
+  undoAlreadyVoided: "Pesanan itu sudah dibatalkan.",
+  undoDone: "Pesanan {orderId} dibatalkan: {lines}.",
+  undoDoneLast: "Pesanan terakhir anda dibatalkan.",
+  undoFailed: "⚠ tidak dapat dibatalkan, cuba lagi",
+  historyUsage: "Penggunaan: /history [bilangan]",
+  historyAll: "{count} pesanan terakhir dalam sembang ini:",
+  historyOwn: "{count} pesanan terakhir anda:",
+  historyFailed: "⚠ tidak dapat memuatkan sejarah, cuba lagi",
+  voidButton: "✖ Batal {n}",
+  repeatButton: "🔁 Ulang {n}",
+  voided: "Dibatalkan",
+  alreadyVoided: "Sudah dibatalkan",
+  voidFailed: "⚠ tidak dapat dibatalkan",
+  onlyOwnersVoid: "Hanya pemilik boleh membatalkan pesanan orang lain",
+  repeatGone: "Minuman itu tiada lagi dalam menu",
+  repeatMissing: "(Tiada lagi dalam menu: {drinks})",
+  repeatFailed: "⚠ tidak dapat diulang",
+  reportUsage: "Penggunaan: /report today | week | YYYY-MM-DD..YYYY-MM-DD",
+  reportFailed: "⚠ tidak dapat menyediakan laporan, cuba lagi",
+  grantUsage:
+    "Penggunaan: /grant @pengguna owner|barista|viewer (atau balas mesej mereka)",
+  revokeUsage: "Penggunaan: /revoke @pengguna (atau balas mesej mereka)",
+  unknownUser:
+    "Saya belum kenal {who}. Minta mereka menghantar mesej kepada saya dahulu, atau guna ID pengguna berangka mereka.",
+  ownRole: "Anda tidak boleh menukar peranan anda sendiri.",
+  roleGranted: "{who} kini {role}.",
+  roleOwner: "pemilik",
+  roleBarista: "barista",
+  roleViewer: "pemerhati",
+  roleRevoked: "{who} tidak lagi mempunyai peranan staf.",
+  roleNone: "{who} tiada peranan staf untuk dibuang.",
+
+  // Language
+  languageCurrent: "Bahasa anda: {language}. Pilih satu:",
+  languageAuto: "🌐 Sama seperti Telegram",
+  languageSet: "✅ Bahasa ditetapkan kepada {language}.",
+  languageFollow: "✅ Mengikut bahasa Telegram anda ({language}).",
+  languageUsage: "Penggunaan: /language [{codes}|auto]",
+  languagePrivate: "Mesej saya terus untuk menukar bahasa.",
+};
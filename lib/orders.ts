@@ -0,0 +1,344 @@
+/**
+ * Order storage backends behind a single OrderStore interface.
+ *
+ * Exports:
+ * - OrderStore: append / find / findByOrderId / void / setStatus / listByRange
+ * - OrderRef: how void() locates an order (OrderId, or CallbackId / row number for older rows)
+ * - isVoided(row): true for rows marked Voided
+ * - rowFingerprint(row): short hash of a row's Timestamp, Drink and Qty (checks an OrderRef by row)
+ * - SheetsOrderStore: the Google Sheets "Orders" tab (default)
+ * - FileOrderStore: a local JSON-lines file, no service account required
+ * - getOrderStore(): the backend selected by ORDER_STORE (cached per instance)
+ * - newOrderId(): short id shared by every line of one confirmed cart
+ * - listAllOrders(store): every stored order, for all-time totals
+ *
+ * Env:
+ * - ORDER_STORE: "sheets" (default) or "file"
+ * - ORDER_STORE_FILE: path used by the file backend (default: ./orders.jsonl)
+ * - SHEET_ID: required by the Sheets backend
+ *
+ * Notes:
+ * - Orders are addressed by their 1-based row number, where row 1 is the header.
+ *   The file backend numbers its lines the same way so callers can't tell them apart.
+ * - void() never removes rows: it finds them by id at call time and marks them
+ *   Voided, so sorting the sheet or appending in between can't hit the wrong row.
+ * - listByRange() and findByOrderId() include voided rows; use isVoided() to skip them.
+ */
+
+import { createHash, randomBytes } from "crypto";
+import {
+  getSheetsAuth,
+  ensureSheet,
+  appendOrdersAndReturnRows,
+  updateOrderStatus,
+  readOrderRows,
+  orderRowFromValues,
+  ORDER_LAST_COL,
+  SHEETS_TIMEOUT_MS,
+  type OrderRow,
+  type OrderStatus,
+  type SheetsAuth,
+} from "./sheets";
+import { JsonLinesFile } from "./jsonl";
+import { nowIso } from "./time";
+
+export type StoredOrder = OrderRow & { row: number };
+
+/**
+ * Identifies every line of one confirmed order. OrderId wins when both are set;
+ * CallbackId covers rows saved before OrderId existed. A row number alone can
+ * point at a different order once the sheet is sorted or edited, so it comes
+ * with the rowFingerprint() of the row it meant.
+ */
+export type OrderRef = {
+  orderId?: string;
+  callbackId?: string;
+  row?: number;
+  fingerprint?: string;
+};
+
+export function isVoided(row: OrderRow): boolean {
+  return row.status === "Voided";
+}
+
+export function rowFingerprint(row: OrderRow): string {
+  return createHash("sha256")
+    .update(`${row.timestamp}|${row.drink}|${row.qty}`)
+    .digest("hex")
+    .slice(0, 8);
+}
+
+function matchesRef(order: OrderRow, row: number, ref: OrderRef): boolean {
+  if (ref.orderId) return order.orderId === ref.orderId;
+  if (ref.callbackId) return order.callbackId === ref.callbackId;
+  if (ref.row) {
+    return row === ref.row && rowFingerprint(order) === ref.fingerprint;
+  }
+  return false;
+}
+
+export interface OrderStore {
+  /** Persist order lines together; resolves to their row numbers (empty if unknown). */
+  append(rows: OrderRow[]): Promise<number[]>;
+  /** Look up a single order by row number. */
+  find(row: number): Promise<StoredOrder | null>;
+  /** Every line saved under an order id (one per cart line). */
+  findByOrderId(orderId: string): Promise<StoredOrder[]>;
+  /** Mark every active line of an order Voided; resolves to the lines changed (empty if none). */
+  void(ref: OrderRef, by: string): Promise<StoredOrder[]>;
+  /** Move every line of an order that isn't voided to a lifecycle status; resolves to the lines changed. */
+  setStatus(ref: OrderRef, status: OrderStatus): Promise<StoredOrder[]>;
+  /** All orders whose timestamp falls in [from, to). */
+  listByRange(from: Date, to: Date): Promise<StoredOrder[]>;
+}
+
+const ORDERS_TITLE = "Orders";
+
+function inRange(timestamp: string, from: Date, to: Date): boolean {
+  const t = Date.parse(timestamp);
+  if (!Number.isFinite(t)) return false;
+  return t >= from.getTime() && t < to.getTime();
+}
+
+/* =============================
+   Google Sheets backend
+============================= */
+
+export class SheetsOrderStore implements OrderStore {
+  private spreadsheetId: string;
+  private title: string;
+  private ensured = false;
+
+  constructor(spreadsheetId: string, title = ORDERS_TITLE) {
+    this.spreadsheetId = spreadsheetId;
+    this.title = title;
+  }
+
+  private async auth(): Promise<SheetsAuth> {
+    if (!this.spreadsheetId) throw new Error("SHEET_ID is not set");
+    const auth = await getSheetsAuth();
+    if (!this.ensured) {
+      await ensureSheet(auth, this.spreadsheetId, this.title);
+      this.ensured = true;
+    }
+    return auth;
+  }
+
+  async append(rows: OrderRow[]): Promise<number[]> {
+    const auth = await this.auth();
+    return appendOrdersAndReturnRows(
+      auth,
+      this.spreadsheetId,
+      this.title,
+      rows,
+    );
+  }
+
+  async find(row: number): Promise<StoredOrder | null> {
+    if (!Number.isInteger(row) || row < 2) return null;
+    const auth = await this.auth();
+    const resp = await auth.sheets.spreadsheets.values.get(
+      {
+        spreadsheetId: this.spreadsheetId,
+        range: `${this.title}!A${row}:${ORDER_LAST_COL}${row}`,
+        valueRenderOption: "UNFORMATTED_VALUE",
+      },
+      { timeout: SHEETS_TIMEOUT_MS },
+    );
+    const values: any[][] = (resp && resp.data && resp.data.values) || [];
+    if (!values.length || !values[0] || !values[0][0]) return null;
+    return { ...orderRowFromValues(values[0]), row };
+  }
+
+  async findByOrderId(orderId: string): Promise<StoredOrder[]> {
+    if (!orderId) return [];
+    const auth = await this.auth();
+    const rows = await readOrderRows(auth, this.spreadsheetId, this.title);
+    return rows
+      .filter((r) => r.order.orderId === orderId)
+      .map((r) => ({ ...r.order, row: r.row }));
+  }
+
+  async void(ref: OrderRef, by: string): Promise<StoredOrder[]> {
+    const auth = await this.auth();
+    const rows = await readOrderRows(auth, this.spreadsheetId, this.title);
+    const at = nowIso();
+    const hits = rows
+      .filter((r) => matchesRef(r.order, r.row, ref) && !isVoided(r.order))
+      .map((r) => ({ ...r.order, row: r.row }));
+    await updateOrderStatus(
+      auth,
+      this.spreadsheetId,
+      this.title,
+      hits.map((h) => h.row),
+      "Voided",
+      { by, at },
+    );
+    return hits.map((h) => ({
+      ...h,
+      status: "Voided",
+      voidedBy: by,
+      voidedAt: at,
+    }));
+  }
+
+  async setStatus(ref: OrderRef, status: OrderStatus): Promise<StoredOrder[]> {
+    const auth = await this.auth();
+    const rows = await readOrderRows(auth, this.spreadsheetId, this.title);
+    const hits = rows
+      .filter(
+        (r) =>
+          matchesRef(r.order, r.row, ref) &&
+          !isVoided(r.order) &&
+          r.order.status !== status,
+      )
+      .map((r) => ({ ...r.order, row: r.row }));
+    await updateOrderStatus(
+      auth,
+      this.spreadsheetId,
+      this.title,
+      hits.map((h) => h.row),
+      status,
+    );
+    return hits.map((h) => ({ ...h, status }));
+  }
+
+  async listByRange(from: Date, to: Date): Promise<StoredOrder[]> {
+    const auth = await this.auth();
+    const rows = await readOrderRows(auth, this.spreadsheetId, this.title);
+    return rows
+      .filter((r) => inRange(r.order.timestamp, from, to))
+      .map((r) => ({ ...r.order, row: r.row }));
+  }
+}
+
+/* =============================
+   Local file backend
+============================= */
+
+/**
+ * Stores one JSON-encoded OrderRow per line.
+ * Line N of the file is reported as row N + 1 to mirror the Sheets header offset.
+ * Operations are serialized within the process; the file is not shared across hosts.
+ */
+export class FileOrderStore implements OrderStore {
+  private file: JsonLinesFile<OrderRow>;
+
+  constructor(path: string) {
+    this.file = new JsonLinesFile<OrderRow>(path);
+  }
+
+  append(rows: OrderRow[]): Promise<number[]> {
+    return this.file.run(async () => {
+      if (!rows.length) return [];
+      const existing = await this.file.readAll();
+      await this.file.appendAll(rows);
+      return rows.map((_, i) => existing.length + 2 + i);
+    });
+  }
+
+  find(row: number): Promise<StoredOrder | null> {
+    return this.file.run(async () => {
+      const rows = await this.file.readAll();
+      const order = rows[row - 2];
+      return order ? { ...order, row } : null;
+    });
+  }
+
+  findByOrderId(orderId: string): Promise<StoredOrder[]> {
+    return this.file.run(async () => {
+      const rows = await this.file.readAll();
+      return rows
+        .map((order, i) => ({ ...order, row: i + 2 }))
+        .filter((o) => !!orderId && o.orderId === orderId);
+    });
+  }
+
+  void(ref: OrderRef, by: string): Promise<StoredOrder[]> {
+    return this.file.run(async () => {
+      const rows = await this.file.readAll();
+      const at = nowIso();
+      const hits: StoredOrder[] = [];
+      rows.forEach((order, i) => {
+        if (!matchesRef(order, i + 2, ref) || isVoided(order)) return;
+        rows[i] = { ...order, status: "Voided", voidedBy: by, voidedAt: at };
+        hits.push({ ...rows[i], row: i + 2 });
+      });
+      if (hits.length) await this.file.writeAll(rows);
+      return hits;
+    });
+  }
+
+  setStatus(ref: OrderRef, status: OrderStatus): Promise<StoredOrder[]> {
+    return this.file.run(async () => {
+      const rows = await this.file.readAll();
+      const hits: StoredOrder[] = [];
+      rows.forEach((order, i) => {
+        if (!matchesRef(order, i + 2, ref) || isVoided(order)) return;
+        if (order.status === status) return;
+        rows[i] = { ...order, status };
+        hits.push({ ...rows[i], row: i + 2 });
+      });
+      if (hits.length) await this.file.writeAll(rows);
+      return hits;
+    });
+  }
+
+  listByRange(from: Date, to: Date): Promise<StoredOrder[]> {
+    return this.file.run(async () => {
+      const rows = await this.file.readAll();
+      return rows
+        .map((order, i) => ({ ...order, row: i + 2 }))
+        .filter((o) => inRange(o.timestamp, from, to));
+    });
+  }
+}
+
+/**
+ * Every order ever stored (for balances and other all-time totals).
+ */
+export function listAllOrders(store: OrderStore): Promise<StoredOrder[]> {
+  return store.listByRange(new Date(0), new Date(8.64e15));
+}
+
+/**
+ * Short, human-readable order id (e.g., "M1X2K9-3F7A").
+ * Time-prefixed so ids from the same day sort together.
+ */
+export function newOrderId(): string {
+  const time = Date.now().toString(36).toUpperCase();
+  const rand = randomBytes(2).toString("hex").toUpperCase();
+  return `${time}-${rand}`;
+}
+
+/* =============================
+   Backend selection
+============================= */
+
+let __store: OrderStore | null = null;
+
+/**
+ * Returns the configured OrderStore, created once per instance.
+ */
+export function getOrderStore(): OrderStore {
+  if (__store) return __store;
+  const env = (globalThis as any)?.process?.env || {};
+  const kind = String(env.ORDER_STORE || "sheets")
+    .trim()
+    .toLowerCase();
+  if (kind === "file") {
+    __store = new FileOrderStore(env.ORDER_STORE_FILE || "./orders.jsonl");
+  } else if (kind === "sheets") {
+    __store = new SheetsOrderStore(env.SHEET_ID || "");
+  } else {
+    throw new Error(`Unknown ORDER_STORE: ${kind}`);
+  }
+  return __store;
+}
+
+/**
+ * Replace the active store (e.g., an in-process FileOrderStore for local runs).
+ */
+export function setOrderStore(store: OrderStore | null): void {
+  __store = store;
+}
@@ -0,0 +1,230 @@
+/**
+ * Customer payments and running balances.
+ *
+ * Exports:
+ * - PaymentRow type and PAYMENT_HEADERS (Payments tab columns)
+ * - PaymentStore: append / list
+ * - SheetsPaymentStore: the Google Sheets "Payments" tab (default)
+ * - FilePaymentStore: a local JSON-lines file (ORDER_STORE=file)
+ * - getPaymentStore(): backend matching ORDER_STORE (cached per instance)
+ * - customerBalance(customer): ordered, paid and outstanding totals
+ *
+ * Env:
+ * - ORDER_STORE: "sheets" (default) or "file" — payments follow the order backend
+ * - PAYMENT_STORE_FILE: path used by the file backend (default: ./payments.jsonl)
+ * - SHEET_ID: required by the Sheets backend
+ *
+ * Notes:
+ * - Balance = sum of Orders.Total billed to the customer (not voided) − sum of Payments.Amount.
+ * - A customer matches by user id when both sides have one, otherwise by @username.
+ */
+
+import {
+  getSheetsAuth,
+  ensureSheet,
+  columnLetter,
+  SHEETS_TIMEOUT_MS,
+  type SheetsAuth,
+} from "./sheets";
+import { getOrderStore, listAllOrders, isVoided } from "./orders";
+import { JsonLinesFile } from "./jsonl";
+import { sameCustomer } from "./customers";
+import { sumMoney } from "./pricing";
+
+/**
+ * Row schema for the Payments sheet.
+ * Columns (A-G):
+ * Timestamp | CustomerId | Customer | Amount | OrderId | RecordedBy | Note
+ */
+export type PaymentRow = {
+  timestamp: string;
+  customerId: number; // 0 if unknown
+  customer: string; // "@username"
+  amount: number;
+  orderId: string; // set when paid via an order's button
+  recordedBy: string; // "@barista"
+  note: string;
+};
+
+export const PAYMENT_HEADERS = [
+  "Timestamp",
+  "CustomerId",
+  "Customer",
+  "Amount",
+  "OrderId",
+  "RecordedBy",
+  "Note",
+] as const;
+
+const PAYMENTS_TITLE = "Payments";
+const PAYMENT_LAST_COL = columnLetter(PAYMENT_HEADERS.length);
+
+export interface PaymentStore {
+  append(row: PaymentRow): Promise<void>;
+  list(): Promise<PaymentRow[]>;
+}
+
+/* =============================
+   Google Sheets backend
+============================= */
+
+export class SheetsPaymentStore implements PaymentStore {
+  private spreadsheetId: string;
+  private ensured = false;
+
+  constructor(spreadsheetId: string) {
+    this.spreadsheetId = spreadsheetId;
+  }
+
+  private async auth(): Promise<SheetsAuth> {
+    if (!this.spreadsheetId) throw new Error("SHEET_ID is not set");
+    const auth = await getSheetsAuth();
+    if (!this.ensured) {
+      await ensureSheet(
+        auth,
+        this.spreadsheetId,
+        PAYMENTS_TITLE,
+        PAYMENT_HEADERS,
+      );
+      this.ensured = true;
+    }
+    return auth;
+  }
+
+  async append(row: PaymentRow): Promise<void> {
+    const auth = await this.auth();
+    await auth.sheets.spreadsheets.values.append(
+      {
+        spreadsheetId: this.spreadsheetId,
+        range: `${PAYMENTS_TITLE}!A1:${PAYMENT_LAST_COL}1`,
+        valueInputOption: "RAW",
+        requestBody: {
+          values: [
+            [
+              row.timestamp,
+              row.customerId || "",
+              row.customer,
+              row.amount,
+              row.orderId,
+              row.recordedBy,
+              row.note,
+            ],
+          ],
+        },
+      },
+      { timeout: SHEETS_TIMEOUT_MS },
+    );
+  }
+
+  async list(): Promise<PaymentRow[]> {
+    const auth = await this.auth();
+    const resp = await auth.sheets.spreadsheets.values.get(
+      {
+        spreadsheetId: this.spreadsheetId,
+        range: `${PAYMENTS_TITLE}!A2:${PAYMENT_LAST_COL}`,
+        valueRenderOption: "UNFORMATTED_VALUE",
+      },
+      { timeout: SHEETS_TIMEOUT_MS },
+    );
+    const values: any[][] = (resp && resp.data && resp.data.values) || [];
+    return values
+      .filter((v) => v && v.length && v[0])
+      .map((v) => ({
+        timestamp: String(v[0] ?? ""),
+        customerId: Number(v[1]) || 0,
+        customer: String(v[2] ?? ""),
+        amount: Number(v[3]) || 0,
+        orderId: String(v[4] ?? ""),
+        recordedBy: String(v[5] ?? ""),
+        note: String(v[6] ?? ""),
+      }));
+  }
+}
+
+/* =============================
+   Local file backend
+============================= */
+
+export class FilePaymentStore implements PaymentStore {
+  private file: JsonLinesFile<PaymentRow>;
+
+  constructor(path: string) {
+    this.file = new JsonLinesFile<PaymentRow>(path);
+  }
+
+  append(row: PaymentRow): Promise<void> {
+    return this.file.run(() => this.file.appendAll([row]));
+  }
+
+  list(): Promise<PaymentRow[]> {
+    return this.file.run(() => this.file.readAll());
+  }
+}
+
+/* =============================
+   Backend selection
+============================= */
+
+let __payments: PaymentStore | null = null;
+
+/**
+ * Returns the PaymentStore matching ORDER_STORE, created once per instance.
+ */
+export function getPaymentStore(): PaymentStore {
+  if (__payments) return __payments;
+  const env = (globalThis as any)?.process?.env || {};
+  const kind = String(env.ORDER_STORE || "sheets")
+    .trim()
+    .toLowerCase();
+  if (kind === "file") {
+    __payments = new FilePaymentStore(
+      env.PAYMENT_STORE_FILE || "./payments.jsonl",
+    );
+  } else {
+    __payments = new SheetsPaymentStore(env.SHEET_ID || "");
+  }
+  return __payments;
+}
+
+/**
+ * Replace the active payment store (e.g., a FilePaymentStore for local runs).
+ */
+export function setPaymentStore(store: PaymentStore | null): void {
+  __payments = store;
+}
+
+/* =============================
+   Balances
+============================= */
+
+export type Balance = {
+  ordered: number;
+  paid: number;
+  balance: number; // ordered − paid; positive means the customer owes money
+};
+
+/**
+ * Outstanding balance for a customer, from every order billed to them and every payment.
+ */
+export async function customerBalance(who: {
+  userId?: number;
+  username?: string;
+}): Promise<Balance> {
+  const [orders, payments] = await Promise.all([
+    listAllOrders(getOrderStore()),
+    getPaymentStore().list(),
+  ]);
+  const ordered = sumMoney(
+    orders
+      .filter(
+        (o) => !isVoided(o) && sameCustomer(who, o.customerId, o.customer),
+      )
+      .map((o) => o.total),
+  );
+  const paid = sumMoney(
+    payments
+      .filter((p) => sameCustomer(who, p.customerId, p.customer))
+      .map((p) => p.amount),
+  );
+  return { ordered, paid, balance: sumMoney([ordered, -paid]) };
+}
@@ -0,0 +1,99 @@
+/**
+ * Order pricing in integer cents, shared by the cart text, the saved and sent
+ * confirmations and the Orders rows, so what's shown is what's saved.
+ *
+ * Exports:
+ * - Cents type, toCents(amount), fromCents(cents)
+ * - sumMoney(amounts): add amounts (e.g. Orders totals) without float drift
+ * - LinePrice / CartPrice types
+ * - priceLine(line, discount?): one line's itemized breakdown
+ * - priceCart(lines, promo?): every line with its share of the promotion, and the totals
+ *
+ * Notes:
+ * - Menu prices and modifier deltas are amounts with up to two decimals; they're
+ *   converted to cents here, once, and everything after is integer arithmetic.
+ * - A stamp-card reward line is priced at 0 whatever the drink costs.
+ * - A line's discount never exceeds its own price.
+ */
+
+import { type CartLine } from "./cart";
+import { type AppliedPromotion } from "./promotions";
+
+export type Cents = number;
+
+/**
+ * 3.5 -> 350. Rounds half away from zero on the decimal value (1.005 -> 101),
+ * not on its float approximation.
+ */
+export function toCents(amount: number): Cents {
+  const n = Number(amount);
+  if (!Number.isFinite(n)) return 0;
+  const cents = Number((Math.abs(n) * 100).toPrecision(12));
+  return Math.sign(n) * Math.round(cents);
+}
+
+export function fromCents(cents: Cents): number {
+  return cents / 100;
+}
+
+export function sumMoney(amounts: number[]): number {
+  return fromCents(amounts.reduce((sum, a) => sum + toCents(a), 0));
+}
+
+export type LinePrice = {
+  base: Cents;
+  modifiers: Array<{ option: string; delta: Cents }>; // only options that change the price
+  unit: Cents; // base + modifiers (0 for a reward)
+  qty: number;
+  gross: Cents; // unit × qty
+  discount: Cents; // this line's share of the promotion
+  total: Cents; // gross − discount
+  reward: boolean;
+};
+
+export type CartPrice = {
+  lines: LinePrice[]; // same order as the cart lines
+  subtotal: Cents;
+  discount: Cents;
+  total: Cents;
+  promotion: AppliedPromotion | null; // null when it took nothing off
+};
+
+export function priceLine(line: CartLine, discount: Cents = 0): LinePrice {
+  const reward = !!line.reward;
+  const base = toCents(line.base);
+  const modifiers = line.mods
+    .map((m) => ({ option: m.option, delta: toCents(m.delta) }))
+    .filter((m) => m.delta !== 0);
+  const unit = reward ? 0 : modifiers.reduce((sum, m) => sum + m.delta, base);
+  const gross = unit * line.qty;
+  const off = Math.max(0, Math.min(discount, gross));
+  return {
+    base,
+    modifiers,
+    unit,
+    qty: line.qty,
+    gross,
+    discount: off,
+    total: gross - off,
+    reward,
+  };
+}
+
+export function priceCart(
+  lines: CartLine[],
+  promo?: AppliedPromotion | null,
+): CartPrice {
+  const priced = lines.map((l, i) =>
+    priceLine(l, promo ? promo.discountCents[i] || 0 : 0),
+  );
+  const subtotal = priced.reduce((sum, l) => sum + l.gross, 0);
+  const discount = priced.reduce((sum, l) => sum + l.discount, 0);
+  return {
+    lines: priced,
+    subtotal,
+    discount,
+    total: subtotal - discount,
+    promotion: promo && discount > 0 ? promo : null,
+  };
+}
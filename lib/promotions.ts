@@ -0,0 +1,293 @@
+/**
+ * Promotions from the Promotions tab: happy hours, buy-N-get-one offers,
+ * per-drink percentage discounts and promo codes.
+ *
+ * Exports:
+ * - Promotion / AppliedPromotion types
+ * - loadPromotions(): the tab's promotions (cached per instance for PROMOTIONS_TTL_MS)
+ * - applyPromotions(lines, promotions, { code?, at? }): the promotion a cart gets, or null
+ * - findPromoCode(code, promotions, at?): the promotion a code unlocks right now, or null
+ * - normalizePromoCode(raw): "SPRING10" (uppercased, spaces removed)
+ * - promotionLabel(promo): "Happy hour" or "Spring sale (SPRING10)", as saved on Orders rows
+ *
+ * Sheet (optional; a header row is optional):
+ * - Promotions!A:H — Name | Type | Value | Drinks | Code | Days | From | To
+ *   - Type: percent (Value % off each matching drink) or buy (buy Value, get one free:
+ *     in every Value+1 matching cups the cheapest is free)
+ *   - Drinks: blank or * for every drink; otherwise comma-separated drink names, ids or categories
+ *   - Code: blank = applied automatically; otherwise only once the code is entered at checkout
+ *   - Days: blank = every day; otherwise e.g. "Mon-Fri" or "Sat, Sun"
+ *   - From / To: shop-time window like 15:00 and 17:00 (blank = all day). A happy hour is a
+ *     percent row with a window; windows may run past midnight
+ *
+ * Notes:
+ * - One promotion per order: an entered code wins, otherwise whichever saves the most
+ *   (ties go to the row nearer the top).
+ * - The discount is split per cart line so each Orders row records its own share.
+ *   Amounts are in cents, on the prices from lib/pricing.ts.
+ * - No Promotions tab (or no SHEET_ID) means no promotions.
+ */
+
+import { getSheetsAuth, SHEETS_TIMEOUT_MS } from "./sheets";
+import { drinkById } from "./menu";
+import { type CartLine } from "./cart";
+import { priceLine, type Cents } from "./pricing";
+import { nowIso, localDateKey, localWeekday } from "./time";
+
+const SHEET_ID = (globalThis as any)?.process?.env?.SHEET_ID || "";
+const PROMOTIONS_TTL_MS = 60 * 1000;
+
+export type Promotion = {
+  name: string;
+  type: "percent" | "buy";
+  value: number; // percent off, or N in buy-N-get-one
+  drinks: string[]; // lowercased drink names, ids or categories; ["*"] for all
+  code: string; // "" = automatic
+  days: number[]; // 0 = Sunday ... 6 = Saturday; empty = every day
+  from: number; // minutes after shop-time midnight; -1 = all day
+  to: number;
+};
+
+export type AppliedPromotion = {
+  name: string;
+  code: string;
+  discountCents: Cents[]; // per cart line, same order as the lines
+  amountCents: Cents; // total discount
+};
+
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+let __cache: { at: number; promotions: Promotion[] } | null = null;
+let __lastSkipped = "";
+
+export function normalizePromoCode(raw: string): string {
+  return String(raw || "")
+    .replace(/\s+/g, "")
+    .toUpperCase();
+}
+
+export function promotionLabel(promo: AppliedPromotion): string {
+  return promo.code ? `${promo.name} (${promo.code})` : promo.name;
+}
+
+/* =============================
+   Parsing the tab
+============================= */
+
+/**
+ * "15:00" (or a Sheets time value, a fraction of a day) to minutes after midnight.
+ * Blank is -1; anything else unreadable is NaN.
+ */
+function parseTime(v: any): number {
+  if (v === undefined || v === null || String(v).trim() === "") return -1;
+  if (typeof v === "number") return Math.round((v % 1) * 24 * 60);
+  const m = /^(\d{1,2}):(\d{2})$/.exec(String(v).trim());
+  if (!m || +m[1] > 24 || +m[2] > 59) return NaN;
+  return +m[1] * 60 + +m[2];
+}
+
+/**
+ * "Mon-Fri, Sun" to weekday numbers; null if a part isn't a day name.
+ */
+function parseDays(v: any): number[] | null {
+  const out: number[] = [];
+  for (const part of String(v ?? "").split(",")) {
+    const p = part.trim().toLowerCase();
+    if (!p) continue;
+    const [a, b] = p
+      .split("-")
+      .map((x) => DAY_NAMES.indexOf(x.trim().slice(0, 3)));
+    if (a < 0 || (b !== undefined && b < 0)) return null;
+    // Ranges may wrap past Saturday ("Fri-Mon")
+    for (let d = a; ; d = (d + 1) % 7) {
+      if (!out.includes(d)) out.push(d);
+      if (b === undefined || d === b) break;
+    }
+  }
+  return out;
+}
+
+function parsePromotion(row: any[]): Promotion | string {
+  const name = String(row[0] ?? "").trim();
+  if (!name) return "missing name";
+  const type = String(row[1] ?? "")
+    .trim()
+    .toLowerCase();
+  if (type !== "percent" && type !== "buy") {
+    return `${name}: unknown type “${row[1] ?? ""}” (percent or buy)`;
+  }
+  const value = Number(row[2]);
+  if (type === "percent" && !(value > 0 && value <= 100)) {
+    return `${name}: percent must be between 0 and 100`;
+  }
+  if (type === "buy" && !(Number.isInteger(value) && value >= 1)) {
+    return `${name}: buy needs a whole number of cups`;
+  }
+  const drinks = String(row[3] ?? "")
+    .split(",")
+    .map((d) => d.trim().toLowerCase())
+    .filter(Boolean);
+  const days = parseDays(row[5]);
+  if (!days) return `${name}: unreadable days “${row[5]}”`;
+  const from = parseTime(row[6]);
+  const to = parseTime(row[7]);
+  if (Number.isNaN(from) || Number.isNaN(to) || from < 0 !== to < 0) {
+    return `${name}: From and To must both be times like 15:00`;
+  }
+  return {
+    name,
+    type,
+    value,
+    drinks: drinks.length ? drinks : ["*"],
+    code: normalizePromoCode(String(row[4] ?? "")),
+    days,
+    from,
+    to,
+  };
+}
+
+/**
+ * The Promotions tab, re-read at most every PROMOTIONS_TTL_MS. Read errors keep
+ * the previous list (or none).
+ */
+export async function loadPromotions(): Promise<Promotion[]> {
+  if (!SHEET_ID) return [];
+  if (__cache && Date.now() - __cache.at < PROMOTIONS_TTL_MS) {
+    return __cache.promotions;
+  }
+  let values: any[][] = [];
+  try {
+    const auth = await getSheetsAuth();
+    const resp = await auth.sheets.spreadsheets.values.get(
+      {
+        spreadsheetId: SHEET_ID,
+        range: "Promotions!A:H",
+        valueRenderOption: "UNFORMATTED_VALUE",
+      },
+      { timeout: SHEETS_TIMEOUT_MS },
+    );
+    values = (resp && resp.data && resp.data.values) || [];
+  } catch (e: any) {
+    // A missing tab just means no promotions
+    if (!/unable to parse range/i.test(e?.message || "")) {
+      console.error(`promotions load error: ${e?.message || String(e)}`);
+      const kept = __cache?.promotions || [];
+      __cache = { at: Date.now(), promotions: kept };
+      return kept;
+    }
+  }
+
+  const head = String(values[0]?.[0] ?? "")
+    .trim()
+    .toLowerCase();
+  const promotions: Promotion[] = [];
+  const skipped: string[] = [];
+  values.forEach((row, i) => {
+    if (i === 0 && head === "name") return;
+    if (!row || row.every((c) => String(c ?? "").trim() === "")) return;
+    const p = parsePromotion(row);
+    if (typeof p === "string") skipped.push(`row ${i + 1}: ${p}`);
+    else promotions.push(p);
+  });
+  const log = skipped.join("; ");
+  if (log && log !== __lastSkipped) {
+    console.error(`promotion rows skipped: ${log}`);
+  }
+  __lastSkipped = log;
+  __cache = { at: Date.now(), promotions };
+  return promotions;
+}
+
+/* =============================
+   Applying promotions
+============================= */
+
+function isRunning(p: Promotion, at: Date): boolean {
+  if (p.days.length && !p.days.includes(localWeekday(localDateKey(at)))) {
+    return false;
+  }
+  if (p.from < 0) return true;
+  const [hh, mm] = nowIso(at).slice(11, 16).split(":").map(Number);
+  const minutes = hh * 60 + mm;
+  // A window like 22:00-02:00 runs past midnight
+  return p.from <= p.to
+    ? minutes >= p.from && minutes < p.to
+    : minutes >= p.from || minutes < p.to;
+}
+
+function matchesDrink(p: Promotion, line: CartLine): boolean {
+  if (line.reward) return false; // already free
+  if (p.drinks.includes("*")) return true;
+  const drink = drinkById(line.drinkId);
+  const keys = [line.drinkId, line.name.toLowerCase()];
+  if (drink) keys.push(drink.category.toLowerCase());
+  return keys.some((k) => p.drinks.includes(k));
+}
+
+/**
+ * Per-line discounts a promotion gives a cart (all zero if it doesn't apply).
+ */
+function discountsFor(p: Promotion, lines: CartLine[]): Cents[] {
+  const out = lines.map(() => 0);
+  if (p.type === "percent") {
+    lines.forEach((l, i) => {
+      if (!matchesDrink(p, l)) return;
+      out[i] = Math.round((priceLine(l).gross * p.value) / 100);
+    });
+    return out;
+  }
+
+  // buy N get one: sort matching cups dearest first; the last of every N+1 is free
+  const cups: Array<{ line: number; price: Cents }> = [];
+  lines.forEach((l, i) => {
+    if (!matchesDrink(p, l)) return;
+    const unit = priceLine(l).unit;
+    for (let k = 0; k < l.qty; k++) cups.push({ line: i, price: unit });
+  });
+  cups.sort((a, b) => b.price - a.price);
+  for (let k = p.value; k < cups.length; k += p.value + 1) {
+    const cup = cups[k];
+    out[cup.line] += cup.price;
+  }
+  return out;
+}
+
+function applied(p: Promotion, lines: CartLine[]): AppliedPromotion | null {
+  const discountCents = discountsFor(p, lines);
+  const amountCents = discountCents.reduce((s, d) => s + d, 0);
+  if (!(amountCents > 0)) return null;
+  return { name: p.name, code: p.code, discountCents, amountCents };
+}
+
+export function findPromoCode(
+  code: string,
+  promotions: Promotion[],
+  at: Date = new Date(),
+): Promotion | null {
+  const c = normalizePromoCode(code);
+  if (!c) return null;
+  return promotions.find((p) => p.code === c && isRunning(p, at)) || null;
+}
+
+/**
+ * The promotion a cart gets: the one its code unlocks (if it saves anything),
+ * otherwise the automatic one that saves the most.
+ */
+export function applyPromotions(
+  lines: CartLine[],
+  promotions: Promotion[],
+  opts: { code?: string; at?: Date } = {},
+): AppliedPromotion | null {
+  const at = opts.at || new Date();
+  const coded = opts.code ? findPromoCode(opts.code, promotions, at) : null;
+  const fromCode = coded ? applied(coded, lines) : null;
+  if (fromCode) return fromCode;
+
+  let best: AppliedPromotion | null = null;
+  for (const p of promotions) {
+    if (p.code || !isRunning(p, at)) continue;
+    const a = applied(p, lines);
+    if (a && (!best || a.amountCents > best.amountCents)) best = a;
+  }
+  return best;
+}
@@ -0,0 +1,168 @@
+/**
+ * Sales summaries over the Orders sheet.
+ *
+ * Exports:
+ * - parseReportRange(arg, now?): "today" | "week" | "YYYY-MM-DD..YYYY-MM-DD" -> ReportRange
+ * - summarizeOrders(rows): SalesSummary (revenue, cups, per drink, oat/BYOC, per staff)
+ * - summaryText(summary, label, title?): reply text for Telegram
+ * - loadSummary(range): read the range from the OrderStore and summarize it
+ *
+ * Notes:
+ * - Days are shop-local (see lib/time.ts); ranges are [from, to).
+ * - "week" runs from Monday 00:00 of the current week to the end of today.
+ * - Cups count Qty; orders count distinct OrderIds (rows without one count individually).
+ * - Voided rows are left out.
+ */
+
+import { type OrderRow } from "./sheets";
+import { getOrderStore, isVoided } from "./orders";
+import { fmtMoney } from "./menu";
+import { baseDrinkName } from "./cart";
+import { sumMoney } from "./pricing";
+import { escapeHtml } from "./telegram";
+import {
+  localDateKey,
+  startOfLocalDay,
+  addDays,
+  localWeekday,
+  isDateKey,
+} from "./time";
+
+export type ReportRange = {
+  from: Date;
+  to: Date;
+  label: string;
+};
+
+export type Tally = { cups: number; revenue: number };
+
+export type SalesSummary = {
+  revenue: number;
+  cups: number;
+  orders: number;
+  oat: number; // cups with oat milk
+  byoc: number; // cups in a customer's own cup
+  byDrink: Map<string, Tally>;
+  byStaff: Map<string, Tally>;
+};
+
+/**
+ * Parse the /report argument into a time range. Returns null if it isn't understood.
+ */
+export function parseReportRange(
+  arg: string,
+  now: Date = new Date(),
+): ReportRange | null {
+  const a = (arg || "today").trim().toLowerCase();
+  const today = localDateKey(now);
+
+  if (a === "today") {
+    return {
+      from: startOfLocalDay(today),
+      to: startOfLocalDay(addDays(today, 1)),
+      label: today,
+    };
+  }
+
+  if (a === "week") {
+    const monday = addDays(today, -((localWeekday(today) + 6) % 7));
+    return {
+      from: startOfLocalDay(monday),
+      to: startOfLocalDay(addDays(today, 1)),
+      label: `${monday} to ${today}`,
+    };
+  }
+
+  const m = /^(\d{4}-\d{2}-\d{2})\s*\.\.\s*(\d{4}-\d{2}-\d{2})$/.exec(a);
+  if (m && isDateKey(m[1]) && isDateKey(m[2]) && m[1] <= m[2]) {
+    return {
+      from: startOfLocalDay(m[1]),
+      to: startOfLocalDay(addDays(m[2], 1)),
+      label: `${m[1]} to ${m[2]}`,
+    };
+  }
+
+  if (isDateKey(a)) {
+    return {
+      from: startOfLocalDay(a),
+      to: startOfLocalDay(addDays(a, 1)),
+      label: a,
+    };
+  }
+
+  return null;
+}
+
+function isByoc(row: OrderRow): boolean {
+  return /\bbyoc\b/i.test(row.modifiers || "") || /\(byoc\)/i.test(row.drink);
+}
+
+function bump(map: Map<string, Tally>, key: string, row: OrderRow) {
+  const t = map.get(key) || { cups: 0, revenue: 0 };
+  t.cups += row.qty;
+  t.revenue = sumMoney([t.revenue, row.total]);
+  map.set(key, t);
+}
+
+export function summarizeOrders(rows: OrderRow[]): SalesSummary {
+  const summary: SalesSummary = {
+    revenue: 0,
+    cups: 0,
+    orders: 0,
+    oat: 0,
+    byoc: 0,
+    byDrink: new Map(),
+    byStaff: new Map(),
+  };
+  const orderIds = new Set<string>();
+  rows.forEach((row, i) => {
+    if (isVoided(row)) return;
+    summary.revenue = sumMoney([summary.revenue, row.total]);
+    summary.cups += row.qty;
+    orderIds.add(row.orderId || `row:${i}`);
+    if (row.oatMilk) summary.oat += row.qty;
+    if (isByoc(row)) summary.byoc += row.qty;
+    bump(summary.byDrink, baseDrinkName(row.drink, row.modifiers), row);
+    bump(
+      summary.byStaff,
+      row.username || row.fullName || String(row.userId),
+      row,
+    );
+  });
+  summary.orders = orderIds.size;
+  return summary;
+}
+
+function tallyLines(map: Map<string, Tally>): string[] {
+  return [...map.entries()]
+    .sort((a, b) => b[1].revenue - a[1].revenue || b[1].cups - a[1].cups)
+    .map(
+      ([name, t]) =>
+        `• ${escapeHtml(name)} — ${t.cups} cup${t.cups === 1 ? "" : "s"}, ${fmtMoney(t.revenue)}`,
+    );
+}
+
+export function summaryText(
+  summary: SalesSummary,
+  label: string,
+  title = "Sales report",
+): string {
+  if (!summary.cups) return `${title} — ${label}\nNo orders.`;
+  return [
+    `${title} — ${label}`,
+    `Revenue: ${fmtMoney(summary.revenue)}`,
+    `Cups: ${summary.cups} (${summary.orders} order${summary.orders === 1 ? "" : "s"})`,
+    `Oat milk: ${summary.oat} · BYOC: ${summary.byoc}`,
+    "",
+    "By drink:",
+    ...tallyLines(summary.byDrink),
+    "",
+    "By staff:",
+    ...tallyLines(summary.byStaff),
+  ].join("\n");
+}
+
+export async function loadSummary(range: ReportRange): Promise<SalesSummary> {
+  const rows = await getOrderStore().listByRange(range.from, range.to);
+  return summarizeOrders(rows);
+}
@@ -0,0 +1,417 @@
+/**
+ * Conversation/session state with per-key TTLs.
+ *
+ * Serverless instances don't share memory, so multi-step flows (quantity replies,
+ * /undo) keep their state here instead of in module-level Maps.
+ *
+ * Exports:
+ * - SessionStore: get / set (with TTL) / delete / claim (set-if-absent)
+ * - MemorySessionStore: per-instance Map (default, fine for a single process)
+ * - FileSessionStore: JSON file on local disk (single host, survives restarts)
+ * - RedisSessionStore: any Redis-protocol server (shared across instances)
+ * - getSessionStore(): the backend selected by SESSION_STORE (cached per instance)
+ * - sessionStoreKind(): "memory", "file" or "redis", as selected by the env
+ * - closeSessionStore(): close the Redis connection, if any (process shutdown)
+ *
+ * Env:
+ * - SESSION_STORE: "memory", "file" or "redis" (default: "redis" when REDIS_URL is set, else "memory")
+ * - SESSION_STORE_FILE: path used by the file backend (default: ./sessions.json)
+ * - REDIS_URL: redis://[:password@]host[:port][/db] for the Redis backend; rediss:// connects over TLS
+ */
+
+import { promises as fs } from "fs";
+import { connect, type Socket } from "net";
+import { connect as connectTls } from "tls";
+
+export interface SessionStore {
+  /** Value for key, or undefined if missing or expired. */
+  get<T = unknown>(key: string): Promise<T | undefined>;
+  /** Store a JSON-serializable value that expires after ttlMs. */
+  set<T = unknown>(key: string, value: T, ttlMs: number): Promise<void>;
+  /** Remove key (no-op if missing). */
+  delete(key: string): Promise<void>;
+  /**
+   * Set key only if it is missing or expired. Resolves true if this call set it.
+   * Use for run-once guards (e.g., a cron job fired twice).
+   */
+  claim(key: string, ttlMs: number): Promise<boolean>;
+}
+
+type Entry = { v: unknown; exp: number };
+
+/* =============================
+   In-memory backend
+============================= */
+
+export class MemorySessionStore implements SessionStore {
+  private map = new Map<string, Entry>();
+
+  async get<T = unknown>(key: string): Promise<T | undefined> {
+    const e = this.map.get(key);
+    if (!e) return undefined;
+    if (e.exp <= Date.now()) {
+      this.map.delete(key);
+      return undefined;
+    }
+    return e.v as T;
+  }
+
+  async set<T = unknown>(key: string, value: T, ttlMs: number): Promise<void> {
+    this.map.set(key, { v: value, exp: Date.now() + ttlMs });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.map.delete(key);
+  }
+
+  async claim(key: string, ttlMs: number): Promise<boolean> {
+    if ((await this.get(key)) !== undefined) return false;
+    await this.set(key, true, ttlMs);
+    return true;
+  }
+}
+
+/* =============================
+   Local file backend
+============================= */
+
+/**
+ * Keeps all sessions in one JSON object on disk, pruning expired keys on write.
+ * Operations are serialized within the process.
+ */
+export class FileSessionStore implements SessionStore {
+  private path: string;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  private serialize<T>(fn: () => Promise<T>): Promise<T> {
+    const next = this.queue.then(fn, fn);
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  private async readAll(): Promise<Record<string, Entry>> {
+    try {
+      const raw = await fs.readFile(this.path, "utf8");
+      return raw.trim() ? JSON.parse(raw) : {};
+    } catch (err: any) {
+      if (err?.code === "ENOENT") return {};
+      throw err;
+    }
+  }
+
+  private async writeAll(all: Record<string, Entry>): Promise<void> {
+    const now = Date.now();
+    for (const k of Object.keys(all)) {
+      if (all[k].exp <= now) delete all[k];
+    }
+    await fs.writeFile(this.path, JSON.stringify(all), "utf8");
+  }
+
+  get<T = unknown>(key: string): Promise<T | undefined> {
+    return this.serialize(async () => {
+      const e = (await this.readAll())[key];
+      if (!e || e.exp <= Date.now()) return undefined;
+      return e.v as T;
+    });
+  }
+
+  set<T = unknown>(key: string, value: T, ttlMs: number): Promise<void> {
+    return this.serialize(async () => {
+      const all = await this.readAll();
+      all[key] = { v: value, exp: Date.now() + ttlMs };
+      await this.writeAll(all);
+    });
+  }
+
+  delete(key: string): Promise<void> {
+    return this.serialize(async () => {
+      const all = await this.readAll();
+      if (!(key in all)) return;
+      delete all[key];
+      await this.writeAll(all);
+    });
+  }
+
+  claim(key: string, ttlMs: number): Promise<boolean> {
+    return this.serialize(async () => {
+      const all = await this.readAll();
+      const e = all[key];
+      if (e && e.exp > Date.now()) return false;
+      all[key] = { v: true, exp: Date.now() + ttlMs };
+      await this.writeAll(all);
+      return true;
+    });
+  }
+}
+
+/* =============================
+   Redis-protocol backend
+============================= */
+
+export const REDIS_TIMEOUT_MS = 3000;
+
+type RespValue = string | number | null | RespValue[];
+
+type Pending = {
+  resolve: (v: RespValue) => void;
+  reject: (e: Error) => void;
+};
+
+/**
+ * Parse one RESP reply starting at `offset`.
+ * Returns undefined when the buffer doesn't hold a complete reply yet.
+ */
+function parseResp(
+  buf: Buffer,
+  offset: number,
+): { value: RespValue | Error; next: number } | undefined {
+  const eol = buf.indexOf("\r\n", offset);
+  if (eol < 0) return undefined;
+  const type = String.fromCharCode(buf[offset]);
+  const line = buf.toString("utf8", offset + 1, eol);
+  const after = eol + 2;
+  switch (type) {
+    case "+":
+      return { value: line, next: after };
+    case "-":
+      return { value: new Error(line), next: after };
+    case ":":
+      return { value: Number(line), next: after };
+    case "$": {
+      const len = Number(line);
+      if (len < 0) return { value: null, next: after };
+      if (buf.length < after + len + 2) return undefined;
+      return {
+        value: buf.toString("utf8", after, after + len),
+        next: after + len + 2,
+      };
+    }
+    case "*": {
+      const n = Number(line);
+      if (n < 0) return { value: null, next: after };
+      const items: RespValue[] = [];
+      let pos = after;
+      for (let i = 0; i < n; i++) {
+        const item = parseResp(buf, pos);
+        if (!item) return undefined;
+        if (item.value instanceof Error) return item;
+        items.push(item.value);
+        pos = item.next;
+      }
+      return { value: items, next: pos };
+    }
+    default:
+      return { value: new Error(`Unexpected RESP type: ${type}`), next: after };
+  }
+}
+
+function encodeCommand(args: string[]): string {
+  let out = `*${args.length}\r\n`;
+  for (const a of args) out += `$${Buffer.byteLength(a, "utf8")}\r\n${a}\r\n`;
+  return out;
+}
+
+/**
+ * Minimal Redis client: one lazily opened connection, pipelined commands,
+ * reconnect on the next command after the socket closes.
+ * Speaks plain RESP2, so any compatible server (Redis, Valkey, KeyDB, a local fake) works.
+ */
+export class RedisSessionStore implements SessionStore {
+  private url: URL;
+  private prefix: string;
+  private socket: Socket | null = null;
+  private ready: Promise<void> | null = null;
+  private pending: Pending[] = [];
+  private buf: Buffer = Buffer.alloc(0);
+
+  constructor(url: string, prefix = "beanleaf:") {
+    this.url = new URL(url);
+    this.prefix = prefix;
+  }
+
+  private failAll(err: Error) {
+    const waiting = this.pending;
+    this.pending = [];
+    for (const p of waiting) p.reject(err);
+  }
+
+  private onData(chunk: Buffer) {
+    this.buf = this.buf.length ? Buffer.concat([this.buf, chunk]) : chunk;
+    let offset = 0;
+    while (offset < this.buf.length) {
+      const parsed = parseResp(this.buf, offset);
+      if (!parsed) break;
+      offset = parsed.next;
+      const p = this.pending.shift();
+      if (!p) continue;
+      if (parsed.value instanceof Error) p.reject(parsed.value);
+      else p.resolve(parsed.value);
+    }
+    this.buf = this.buf.subarray(offset);
+  }
+
+  private open(): Promise<void> {
+    if (this.ready) return this.ready;
+    this.ready = new Promise<void>((resolve, reject) => {
+      const port = Number(this.url.port || 6379);
+      const host = this.url.hostname;
+      // Hosted Redis (Upstash, Redis Cloud, ...) usually only accepts TLS
+      const tls = this.url.protocol === "rediss:";
+      const sock: Socket = tls
+        ? connectTls({ host, port, servername: host })
+        : connect({ host, port });
+      sock.setTimeout(REDIS_TIMEOUT_MS);
+      sock.on(tls ? "secureConnect" : "connect", () => {
+        sock.setTimeout(0);
+        resolve();
+      });
+      sock.on("data", (c: Buffer) => this.onData(c));
+      sock.on("timeout", () => sock.destroy(new Error("Redis timeout")));
+      sock.on("error", (err: Error) => {
+        reject(err);
+        this.failAll(err);
+      });
+      sock.on("close", () => {
+        this.socket = null;
+        this.ready = null;
+        this.buf = Buffer.alloc(0);
+        this.failAll(new Error("Redis connection closed"));
+      });
+      this.socket = sock;
+    });
+    const handshake = this.ready.then(async () => {
+      const password = decodeURIComponent(this.url.password || "");
+      const user = decodeURIComponent(this.url.username || "");
+      if (password) {
+        await this.send(user ? ["AUTH", user, password] : ["AUTH", password]);
+      }
+      const db = this.url.pathname.replace(/^\//, "");
+      if (db && db !== "0") await this.send(["SELECT", db]);
+    });
+    handshake.catch(() => this.socket?.destroy());
+    this.ready = handshake;
+    return handshake;
+  }
+
+  private send(args: string[]): Promise<RespValue> {
+    return new Promise<RespValue>((resolve, reject) => {
+      const sock = this.socket;
+      if (!sock) {
+        reject(new Error("Redis not connected"));
+        return;
+      }
+      const timer = setTimeout(() => {
+        sock.destroy(new Error(`Redis ${args[0]} timed out`));
+      }, REDIS_TIMEOUT_MS);
+      this.pending.push({
+        resolve: (v) => {
+          clearTimeout(timer);
+          resolve(v);
+        },
+        reject: (e) => {
+          clearTimeout(timer);
+          reject(e);
+        },
+      });
+      sock.write(encodeCommand(args));
+    });
+  }
+
+  private async command(args: string[]): Promise<RespValue> {
+    await this.open();
+    return this.send(args);
+  }
+
+  async get<T = unknown>(key: string): Promise<T | undefined> {
+    const raw = await this.command(["GET", this.prefix + key]);
+    if (typeof raw !== "string") return undefined;
+    try {
+      return JSON.parse(raw) as T;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set<T = unknown>(key: string, value: T, ttlMs: number): Promise<void> {
+    const ms = String(Math.max(1, Math.floor(ttlMs)));
+    await this.command([
+      "SET",
+      this.prefix + key,
+      JSON.stringify(value),
+      "PX",
+      ms,
+    ]);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.command(["DEL", this.prefix + key]);
+  }
+
+  async claim(key: string, ttlMs: number): Promise<boolean> {
+    const ms = String(Math.max(1, Math.floor(ttlMs)));
+    const reply = await this.command([
+      "SET",
+      this.prefix + key,
+      "true",
+      "PX",
+      ms,
+      "NX",
+    ]);
+    return reply === "OK";
+  }
+
+  /** Close the connection (e.g., on process shutdown). */
+  close(): void {
+    this.socket?.end();
+  }
+}
+
+/* =============================
+   Backend selection
+============================= */
+
+let __sessions: SessionStore | null = null;
+
+export function sessionStoreKind(): string {
+  const env = (globalThis as any)?.process?.env || {};
+  return String(env.SESSION_STORE || (env.REDIS_URL ? "redis" : "memory"))
+    .trim()
+    .toLowerCase();
+}
+
+/**
+ * Returns the configured SessionStore, created once per instance.
+ */
+export function getSessionStore(): SessionStore {
+  if (__sessions) return __sessions;
+  const env = (globalThis as any)?.process?.env || {};
+  const kind = sessionStoreKind();
+  if (kind === "memory") {
+    __sessions = new MemorySessionStore();
+  } else if (kind === "file") {
+    __sessions = new FileSessionStore(
+      env.SESSION_STORE_FILE || "./sessions.json",
+    );
+  } else if (kind === "redis") {
+    if (!env.REDIS_URL) throw new Error("REDIS_URL is not set");
+    __sessions = new RedisSessionStore(env.REDIS_URL);
+  } else {
+    throw new Error(`Unknown SESSION_STORE: ${kind}`);
+  }
+  return __sessions;
+}
+
+export function closeSessionStore(): void {
+  if (__sessions instanceof RedisSessionStore) __sessions.close();
+}
+
+/**
+ * Replace the active session store (e.g., a MemorySessionStore for local runs).
+ */
+export function setSessionStore(store: SessionStore | null): void {
+  __sessions = store;
+}
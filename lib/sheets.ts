@@ -3,8 +3,15 @@
  *
  * Exports:
  * - getSheetsAuth(): Promise<SheetsAuth>
- * - ensureSheet(auth, spreadsheetId, title?): Promise<void>
+ * - setSheetsAuth(auth | null): use this client instead of the service account (tests; see test/support/sheets.ts)
+ * - ensureSheet(auth, spreadsheetId, title?, headers?): Promise<void>
  * - appendOrder(auth, spreadsheetId, row, title?) OR appendOrder(auth, spreadsheetId, title, row): Promise<void>
+ * - appendOrderAndReturnRow(auth, spreadsheetId, title, row): Promise<number>
+ * - appendOrdersAndReturnRows(auth, spreadsheetId, title, rows): Promise<number[]>
+ * - readOrderRows(auth, spreadsheetId, title?): Promise<Array<{ row; order }>>
+ * - orderRowToValues(row) / orderRowFromValues(values): column mapping for the Orders sheet
+ * - updateOrderStatus(auth, spreadsheetId, title, rows, status, voided?): set Status (and VoidedBy / VoidedAt) on rows
+ * - columnLetter(n): 1-based column index to A1 letters
  *
  * Env required:
  * - GOOGLE_SERVICE_ACCOUNT_EMAIL
@@ -36,9 +43,26 @@ const RAW_PRIVATE_KEY_BASE64 =
 
 /**
  * Row schema for the Orders sheet.
- * Columns (A-L):
- * Timestamp | ChatId | UserId | Username | FullName | Drink | Price | Qty | Total | OatMilk | MessageId | CallbackId
+ * Columns (A-W):
+ * Timestamp | ChatId | UserId | Username | FullName | Drink | Price | Qty | Total | OatMilk | MessageId | CallbackId | OrderId | Modifiers | Customer | CustomerId | Status | VoidedBy | VoidedAt | DrinkId | Promotion | Discount | Reward
+ *
+ * One row per cart line; every line confirmed together shares the same OrderId.
+ * Total is Price × Qty less the line's share of the order's promotion (Discount).
+ * Reward rows are stamp-card drinks given free (Price and Total 0); see lib/loyalty.ts.
+ * Status moves Queued → Preparing → Ready → Collected as the staff ticket's buttons are tapped.
+ * Rows are never deleted: voiding sets Status to "Voided" and records who and when.
  */
+export type OrderStatus =
+  "Queued" | "Preparing" | "Ready" | "Collected" | "Voided";
+
+export const ORDER_STATUSES: readonly OrderStatus[] = [
+  "Queued",
+  "Preparing",
+  "Ready",
+  "Collected",
+  "Voided",
+];
+
 export type OrderRow = {
   timestamp: string; // ISO string
   chatId: number;
@@ -47,13 +71,156 @@ export type OrderRow = {
   fullName: string;
   drink: string;
   price: number;
-  qty: number; // always 1
+  qty: number;
   total: number; // price * qty
   oatMilk: boolean;
   messageId: number;
   callbackId: string;
+  orderId: string;
+  modifiers: string; // "Group: Option; ..." for every modifier group asked
+  customer: string; // "@username" the order is billed to, or ""
+  customerId: number; // Telegram user id of the customer, 0 if unknown
+  status: OrderStatus; // blank (rows from before statuses existed) reads as "Collected"
+  voidedBy: string; // "@username" of whoever voided it, or ""
+  voidedAt: string; // ISO string, or ""
+  drinkId: string; // the Menu row's Id; "" on rows saved before drink ids existed
+  promotion: string; // "Happy hour" or "Spring sale (SPRING10)", or ""
+  discount: number; // taken off this row's Total by the promotion
+  reward: boolean; // a free stamp-card drink
 };
 
+/**
+ * Header row for the Orders sheet, in column order.
+ */
+export const ORDER_HEADERS = [
+  "Timestamp",
+  "ChatId",
+  "UserId",
+  "Username",
+  "FullName",
+  "Drink",
+  "Price",
+  "Qty",
+  "Total",
+  "OatMilk",
+  "MessageId",
+  "CallbackId",
+  "OrderId",
+  "Modifiers",
+  "Customer",
+  "CustomerId",
+  "Status",
+  "VoidedBy",
+  "VoidedAt",
+  "DrinkId",
+  "Promotion",
+  "Discount",
+  "Reward",
+] as const;
+
+/**
+ * Convert a 1-based column index to A1 letters (1 -> "A", 27 -> "AA").
+ */
+export function columnLetter(n: number): string {
+  let out = "";
+  let x = Math.floor(n);
+  while (x > 0) {
+    const rem = (x - 1) % 26;
+    out = String.fromCharCode(65 + rem) + out;
+    x = Math.floor((x - 1) / 26);
+  }
+  return out;
+}
+
+/**
+ * A1 column letter of the last Orders column (e.g., "S").
+ */
+export const ORDER_LAST_COL = columnLetter(ORDER_HEADERS.length);
+
+/**
+ * Convert an OrderRow into the cell values written to the Orders sheet.
+ */
+export function orderRowToValues(row: OrderRow): any[] {
+  return [
+    row.timestamp,
+    row.chatId,
+    row.userId,
+    row.username,
+    row.fullName,
+    row.drink,
+    row.price,
+    row.qty,
+    row.total,
+    row.oatMilk,
+    row.messageId,
+    row.callbackId,
+    row.orderId,
+    row.modifiers,
+    row.customer,
+    row.customerId || "",
+    row.status,
+    row.voidedBy,
+    row.voidedAt,
+    row.drinkId,
+    row.promotion,
+    row.discount || "",
+    row.reward,
+  ];
+}
+
+function toStatus(v: any): OrderStatus {
+  const s = String(v ?? "")
+    .trim()
+    .toLowerCase();
+  return ORDER_STATUSES.find((x) => x.toLowerCase() === s) || "Collected";
+}
+
+function toBool(v: any): boolean {
+  if (typeof v === "boolean") return v;
+  if (typeof v === "number") return v !== 0;
+  const s = String(v ?? "")
+    .trim()
+    .toLowerCase();
+  return s === "true" || s === "yes" || s === "y" || s === "1";
+}
+
+/**
+ * Parse cell values read back from the Orders sheet into an OrderRow.
+ * Missing or malformed cells fall back to empty/zero values.
+ */
+export function orderRowFromValues(values: any[]): OrderRow {
+  const v = values || [];
+  const num = (x: any) => {
+    const n = Number(x);
+    return Number.isFinite(n) ? n : 0;
+  };
+  return {
+    timestamp: String(v[0] ?? ""),
+    chatId: num(v[1]),
+    userId: num(v[2]),
+    username: String(v[3] ?? ""),
+    fullName: String(v[4] ?? ""),
+    drink: String(v[5] ?? ""),
+    price: num(v[6]),
+    qty: num(v[7]),
+    total: num(v[8]),
+    oatMilk: toBool(v[9]),
+    messageId: num(v[10]),
+    callbackId: String(v[11] ?? ""),
+    orderId: String(v[12] ?? ""),
+    modifiers: String(v[13] ?? ""),
+    customer: String(v[14] ?? ""),
+    customerId: num(v[15]),
+    status: toStatus(v[16]),
+    voidedBy: String(v[17] ?? ""),
+    voidedAt: String(v[18] ?? ""),
+    drinkId: String(v[19] ?? ""),
+    promotion: String(v[20] ?? ""),
+    discount: num(v[21]),
+    reward: toBool(v[22]),
+  };
+}
+
 export type SheetsAuth = {
   jwt: JWT;
   sheets: sheets_v4.Sheets;
@@ -90,10 +257,17 @@ function getPrivateKey(): string {
   return normalizePrivateKeyText(RAW_PRIVATE_KEY || "");
 }
 
+let __authOverride: SheetsAuth | null = null;
+
+export function setSheetsAuth(auth: SheetsAuth | null): void {
+  __authOverride = auth;
+}
+
 /**
  * Creates an authenticated Sheets client using a service account (JWT).
  */
 export async function getSheetsAuth(): Promise<SheetsAuth> {
+  if (__authOverride) return __authOverride;
   if (!SVC_EMAIL) throw new Error("GOOGLE_SERVICE_ACCOUNT_EMAIL is not set");
 
   const key = getPrivateKey();
@@ -114,12 +288,15 @@ export async function getSheetsAuth(): Promise<SheetsAuth> {
 }
 
 /**
- * Ensures a sheet with the given title exists, and writes the header row if newly created.
+ * Ensures a sheet with the given title exists and that its header row has every column.
+ * - New sheets get the full header row.
+ * - Existing sheets with a shorter header (added columns) get the missing header cells.
  */
 export async function ensureSheet(
   auth: SheetsAuth,
   spreadsheetId: string,
   title = "Orders",
+  headers: readonly string[] = ORDER_HEADERS,
 ): Promise<void> {
   // Check if sheet exists
   const meta = await auth.sheets.spreadsheets.get(
@@ -129,42 +306,35 @@ export async function ensureSheet(
 
   const sheets = meta.data.sheets || [];
   const exists = sheets.some((s: any) => s.properties?.title === title);
-  if (exists) return;
 
-  // Create sheet
-  await auth.sheets.spreadsheets.batchUpdate(
-    {
-      spreadsheetId,
-      requestBody: {
-        requests: [{ addSheet: { properties: { title } } }],
+  if (exists) {
+    const resp = await auth.sheets.spreadsheets.values.get(
+      { spreadsheetId, range: `${title}!1:1` },
+      { timeout: SHEETS_TIMEOUT_MS },
+    );
+    const current: any[] = (resp && resp.data && resp.data.values?.[0]) || [];
+    if (current.length >= headers.length) return;
+  } else {
+    // Create sheet
+    await auth.sheets.spreadsheets.batchUpdate(
+      {
+        spreadsheetId,
+        requestBody: {
+          requests: [{ addSheet: { properties: { title } } }],
+        },
       },
-    },
-    { timeout: SHEETS_TIMEOUT_MS },
-  );
+      { timeout: SHEETS_TIMEOUT_MS },
+    );
+  }
 
   // Write header row
   await auth.sheets.spreadsheets.values.update(
     {
       spreadsheetId,
-      range: `${title}!A1:L1`,
+      range: `${title}!A1:${columnLetter(headers.length)}1`,
       valueInputOption: "RAW",
       requestBody: {
-        values: [
-          [
-            "Timestamp",
-            "ChatId",
-            "UserId",
-            "Username",
-            "FullName",
-            "Drink",
-            "Price",
-            "Qty",
-            "Total",
-            "OatMilk",
-            "MessageId",
-            "CallbackId",
-          ],
-        ],
+        values: [[...headers]],
       },
     },
     { timeout: SHEETS_TIMEOUT_MS },
@@ -172,8 +342,8 @@ export async function ensureSheet(
 }
 
 /**
- * Parse appended row number from an updatedRange string like "Orders!A42:L42".
- * Returns -1 if it cannot be determined.
+ * Parse appended row number from an updatedRange string like "Orders!A42:P42".
+ * For multi-row ranges this is the last row. Returns -1 if it cannot be determined.
  */
 function parseAppendedRowNumberFromRange(updatedRange?: string): number {
   if (!updatedRange) return -1;
@@ -265,28 +435,131 @@ export async function appendOrder(
     row = arg3;
   }
 
+  await auth.sheets.spreadsheets.values.append(
+    {
+      spreadsheetId,
+      range: `${title}!A1:${ORDER_LAST_COL}1`,
+      valueInputOption: "RAW",
+      requestBody: {
+        values: [orderRowToValues(row)],
+      },
+    },
+    { timeout: SHEETS_TIMEOUT_MS },
+  );
+}
+
+/**
+ * Appends a single order row and returns its 1-based row number,
+ * or -1 if the API response does not say where it landed.
+ */
+export async function appendOrderAndReturnRow(
+  auth: SheetsAuth,
+  spreadsheetId: string,
+  title: string,
+  row: OrderRow,
+): Promise<number> {
   const res = await auth.sheets.spreadsheets.values.append(
     {
       spreadsheetId,
-      range: `${title}!A1:L1`,
+      range: `${title}!A1:${ORDER_LAST_COL}1`,
       valueInputOption: "RAW",
       requestBody: {
-        values: [
-          [
-            row.timestamp,
-            row.chatId,
-            row.userId,
-            row.username,
-            row.fullName,
-            row.drink,
-            row.price,
-            row.qty,
-            row.total,
-            row.oatMilk,
-            row.messageId,
-            row.callbackId,
-          ],
-        ],
+        values: [orderRowToValues(row)],
+      },
+    },
+    { timeout: SHEETS_TIMEOUT_MS },
+  );
+  const updatedRange =
+    res && res.data && res.data.updates && res.data.updates.updatedRange;
+  return parseAppendedRowNumberFromRange(updatedRange as string | undefined);
+}
+
+/**
+ * Appends several order rows in one call and returns their 1-based row numbers
+ * (in the same order), or an empty array if the response does not say where they landed.
+ */
+export async function appendOrdersAndReturnRows(
+  auth: SheetsAuth,
+  spreadsheetId: string,
+  title: string,
+  rows: OrderRow[],
+): Promise<number[]> {
+  if (!rows.length) return [];
+  const res = await auth.sheets.spreadsheets.values.append(
+    {
+      spreadsheetId,
+      range: `${title}!A1:${ORDER_LAST_COL}1`,
+      valueInputOption: "RAW",
+      requestBody: {
+        values: rows.map(orderRowToValues),
+      },
+    },
+    { timeout: SHEETS_TIMEOUT_MS },
+  );
+  const updatedRange =
+    res && res.data && res.data.updates && res.data.updates.updatedRange;
+  const last = parseAppendedRowNumberFromRange(
+    updatedRange as string | undefined,
+  );
+  if (last < 0) return [];
+  const first = last - rows.length + 1;
+  return rows.map((_, i) => first + i);
+}
+
+/**
+ * Reads every order below the header row.
+ * Each entry carries its 1-based sheet row number alongside the parsed order.
+ * Blank rows are skipped.
+ */
+export async function readOrderRows(
+  auth: SheetsAuth,
+  spreadsheetId: string,
+  title = "Orders",
+): Promise<Array<{ row: number; order: OrderRow }>> {
+  const resp = await auth.sheets.spreadsheets.values.get(
+    {
+      spreadsheetId,
+      range: `${title}!A2:${ORDER_LAST_COL}`,
+      valueRenderOption: "UNFORMATTED_VALUE",
+    },
+    { timeout: SHEETS_TIMEOUT_MS },
+  );
+  const values: any[][] = (resp && resp.data && resp.data.values) || [];
+  const out: Array<{ row: number; order: OrderRow }> = [];
+  values.forEach((v, i) => {
+    if (!v || v.length === 0 || !v[0]) return;
+    out.push({ row: i + 2, order: orderRowFromValues(v) });
+  });
+  return out;
+}
+
+/**
+ * Sets Status on the given rows in one batch write, plus VoidedBy and VoidedAt
+ * when `voided` is given. Other columns are left untouched.
+ */
+export async function updateOrderStatus(
+  auth: SheetsAuth,
+  spreadsheetId: string,
+  title: string,
+  rows: number[],
+  status: OrderStatus,
+  voided?: { by: string; at: string },
+): Promise<void> {
+  if (!rows.length) return;
+  const first = columnLetter(ORDER_HEADERS.indexOf("Status") + 1);
+  const last = voided
+    ? columnLetter(ORDER_HEADERS.indexOf("VoidedAt") + 1)
+    : first;
+  const values = voided ? [status, voided.by, voided.at] : [status];
+  await auth.sheets.spreadsheets.values.batchUpdate(
+    {
+      spreadsheetId,
+      requestBody: {
+        valueInputOption: "RAW",
+        data: rows.map((row) => ({
+          range: `${title}!${first}${row}:${last}${row}`,
+          values: [values],
+        })),
       },
     },
     { timeout: SHEETS_TIMEOUT_MS },
@@ -0,0 +1,327 @@
+/**
+ * Staff roles keyed by Telegram user id.
+ *
+ * Roles (each includes the ones below it):
+ * - owner: everything, plus /grant and /revoke
+ * - barista: log orders, /undo, /paid
+ * - viewer: /report and other customers' balances
+ *
+ * Exports:
+ * - Role type, ROLES, hasRole(role, need)
+ * - StaffMember type and STAFF_HEADERS (Staff tab columns)
+ * - StaffStore: list / upsert
+ * - SheetsStaffStore: the Google Sheets "Staff" tab (default)
+ * - FileStaffStore: a local JSON-lines file (ORDER_STORE=file)
+ * - getStaffStore() / setStaffStore()
+ * - roleOf(user): the user's Role, or null if they aren't staff (cached per instance)
+ * - grantRole(member) / revokeRole(member, by): write to the store and refresh the cache
+ *
+ * Env:
+ * - OWNER_IDS: comma-separated user ids that are always owners (bootstraps an empty Staff tab)
+ * - APPROVED_USERNAMES (deprecated, to be removed): usernames treated as baristas until they have
+ *   a Staff row; each use logs a warning once per instance
+ * - ORDER_STORE / STAFF_STORE_FILE: the file backend follows the order backend (default: ./staff.jsonl)
+ *
+ * Notes:
+ * - Revoking keeps the row with an empty Role, so the tab records who changed what.
+ */
+
+import {
+  getSheetsAuth,
+  ensureSheet,
+  columnLetter,
+  SHEETS_TIMEOUT_MS,
+  type SheetsAuth,
+} from "./sheets";
+import { JsonLinesFile } from "./jsonl";
+import { nowIso } from "./time";
+
+export type Role = "owner" | "barista" | "viewer";
+
+// Lowest to highest
+export const ROLES: readonly Role[] = ["viewer", "barista", "owner"];
+
+export function isRole(v: string): v is Role {
+  return (ROLES as readonly string[]).includes(v);
+}
+
+/**
+ * True if `role` is at least `need`.
+ */
+export function hasRole(role: Role | null, need: Role): boolean {
+  return !!role && ROLES.indexOf(role) >= ROLES.indexOf(need);
+}
+
+/**
+ * Row schema for the Staff sheet.
+ * Columns (A-F):
+ * UserId | Username | Name | Role | UpdatedBy | UpdatedAt
+ */
+export type StaffMember = {
+  userId: number;
+  username: string; // "@alice", informational only
+  name: string;
+  role: Role | ""; // "" once revoked
+  updatedBy: string;
+  updatedAt: string;
+};
+
+export const STAFF_HEADERS = [
+  "UserId",
+  "Username",
+  "Name",
+  "Role",
+  "UpdatedBy",
+  "UpdatedAt",
+] as const;
+
+const STAFF_TITLE = "Staff";
+const STAFF_LAST_COL = columnLetter(STAFF_HEADERS.length);
+const STAFF_CACHE_TTL_MS = 60 * 1000;
+
+export interface StaffStore {
+  list(): Promise<StaffMember[]>;
+  // Insert or replace the entry with the same userId
+  upsert(member: StaffMember): Promise<void>;
+}
+
+function staffToValues(m: StaffMember): any[] {
+  return [m.userId, m.username, m.name, m.role, m.updatedBy, m.updatedAt];
+}
+
+function staffFromValues(v: any[]): StaffMember {
+  const role = String(v[3] ?? "")
+    .trim()
+    .toLowerCase();
+  return {
+    userId: Number(v[0]) || 0,
+    username: String(v[1] ?? ""),
+    name: String(v[2] ?? ""),
+    role: isRole(role) ? role : "",
+    updatedBy: String(v[4] ?? ""),
+    updatedAt: String(v[5] ?? ""),
+  };
+}
+
+/* =============================
+   Google Sheets backend
+============================= */
+
+export class SheetsStaffStore implements StaffStore {
+  private spreadsheetId: string;
+  private ensured = false;
+
+  constructor(spreadsheetId: string) {
+    this.spreadsheetId = spreadsheetId;
+  }
+
+  private async auth(): Promise<SheetsAuth> {
+    if (!this.spreadsheetId) throw new Error("SHEET_ID is not set");
+    const auth = await getSheetsAuth();
+    if (!this.ensured) {
+      await ensureSheet(auth, this.spreadsheetId, STAFF_TITLE, STAFF_HEADERS);
+      this.ensured = true;
+    }
+    return auth;
+  }
+
+  private async readValues(auth: SheetsAuth): Promise<any[][]> {
+    const resp = await auth.sheets.spreadsheets.values.get(
+      {
+        spreadsheetId: this.spreadsheetId,
+        range: `${STAFF_TITLE}!A2:${STAFF_LAST_COL}`,
+        valueRenderOption: "UNFORMATTED_VALUE",
+      },
+      { timeout: SHEETS_TIMEOUT_MS },
+    );
+    return (resp && resp.data && resp.data.values) || [];
+  }
+
+  async list(): Promise<StaffMember[]> {
+    const auth = await this.auth();
+    const values = await this.readValues(auth);
+    return values.map(staffFromValues).filter((m) => m.userId > 0);
+  }
+
+  async upsert(member: StaffMember): Promise<void> {
+    const auth = await this.auth();
+    const values = await this.readValues(auth);
+    const i = values.findIndex((v) => Number(v?.[0]) === member.userId);
+    if (i >= 0) {
+      const row = i + 2; // header is row 1
+      await auth.sheets.spreadsheets.values.update(
+        {
+          spreadsheetId: this.spreadsheetId,
+          range: `${STAFF_TITLE}!A${row}:${STAFF_LAST_COL}${row}`,
+          valueInputOption: "RAW",
+          requestBody: { values: [staffToValues(member)] },
+        },
+        { timeout: SHEETS_TIMEOUT_MS },
+      );
+      return;
+    }
+    await auth.sheets.spreadsheets.values.append(
+      {
+        spreadsheetId: this.spreadsheetId,
+        range: `${STAFF_TITLE}!A1:${STAFF_LAST_COL}1`,
+        valueInputOption: "RAW",
+        requestBody: { values: [staffToValues(member)] },
+      },
+      { timeout: SHEETS_TIMEOUT_MS },
+    );
+  }
+}
+
+/* =============================
+   Local file backend
+============================= */
+
+export class FileStaffStore implements StaffStore {
+  private file: JsonLinesFile<StaffMember>;
+
+  constructor(path: string) {
+    this.file = new JsonLinesFile<StaffMember>(path);
+  }
+
+  list(): Promise<StaffMember[]> {
+    return this.file.run(() => this.file.readAll());
+  }
+
+  upsert(member: StaffMember): Promise<void> {
+    return this.file.run(async () => {
+      const all = await this.file.readAll();
+      const i = all.findIndex((m) => m.userId === member.userId);
+      if (i >= 0) {
+        all[i] = member;
+        await this.file.writeAll(all);
+      } else {
+        await this.file.appendAll([member]);
+      }
+    });
+  }
+}
+
+/* =============================
+   Backend selection
+============================= */
+
+let __staff: StaffStore | null = null;
+
+/**
+ * Returns the StaffStore matching ORDER_STORE, created once per instance.
+ */
+export function getStaffStore(): StaffStore {
+  if (__staff) return __staff;
+  const env = (globalThis as any)?.process?.env || {};
+  const kind = String(env.ORDER_STORE || "sheets")
+    .trim()
+    .toLowerCase();
+  if (kind === "file") {
+    __staff = new FileStaffStore(env.STAFF_STORE_FILE || "./staff.jsonl");
+  } else {
+    __staff = new SheetsStaffStore(env.SHEET_ID || "");
+  }
+  return __staff;
+}
+
+/**
+ * Replace the active staff store (e.g., a FileStaffStore for local runs).
+ */
+export function setStaffStore(store: StaffStore | null): void {
+  __staff = store;
+  __cache = null;
+}
+
+/* =============================
+   Role lookup
+============================= */
+
+// userId -> role ("" for revoked rows, which also blocks the APPROVED_USERNAMES fallback)
+let __cache: { at: number; byId: Map<number, Role | ""> } | null = null;
+// Users already warned about (APPROVED_USERNAMES fallback)
+const __warned = new Set<number>();
+
+function envList(name: string): string[] {
+  return String((globalThis as any)?.process?.env?.[name] || "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+async function staffRoles(): Promise<Map<number, Role | "">> {
+  if (__cache && Date.now() - __cache.at < STAFF_CACHE_TTL_MS) {
+    return __cache.byId;
+  }
+  const byId = new Map<number, Role | "">();
+  for (const m of await getStaffStore().list()) byId.set(m.userId, m.role);
+  __cache = { at: Date.now(), byId };
+  return byId;
+}
+
+/**
+ * The user's role: OWNER_IDS first, then the Staff tab, then the legacy
+ * APPROVED_USERNAMES list (barista). Null means a customer.
+ */
+export async function roleOf(user?: {
+  id: number;
+  username?: string;
+}): Promise<Role | null> {
+  if (!user?.id) return null;
+  if (envList("OWNER_IDS").includes(String(user.id))) return "owner";
+
+  const byId = await staffRoles();
+  if (byId.has(user.id)) return byId.get(user.id) || null;
+
+  if (!isLegacyUsername(user.username)) return null;
+  // Anyone can take a username, so this fallback is going away: /grant them a role instead
+  if (!__warned.has(user.id)) {
+    __warned.add(user.id);
+    console.warn(
+      `APPROVED_USERNAMES is deprecated: @${user.username} (${user.id}) is a barista by username only; /grant them a role`,
+    );
+  }
+  return "barista";
+}
+
+function isLegacyUsername(username?: string): boolean {
+  const uname = (username || "").replace(/^@/, "").toLowerCase();
+  const legacy = envList("APPROVED_USERNAMES").map((u) =>
+    u.replace(/^@/, "").toLowerCase(),
+  );
+  return !!uname && legacy.includes(uname);
+}
+
+/**
+ * Give a user a role (replacing any previous one).
+ */
+export async function grantRole(
+  member: Omit<StaffMember, "updatedAt">,
+): Promise<void> {
+  await getStaffStore().upsert({ ...member, updatedAt: nowIso() });
+  __cache = null;
+}
+
+/**
+ * Remove a user's role. Returns false if they had none (no role in the Staff tab
+ * and not in APPROVED_USERNAMES).
+ * A user without a row gets one with an empty Role, which also ends the
+ * APPROVED_USERNAMES fallback for them.
+ */
+export async function revokeRole(
+  member: Pick<StaffMember, "userId" | "username" | "name">,
+  updatedBy: string,
+): Promise<boolean> {
+  const current = (await getStaffStore().list()).find(
+    (m) => m.userId === member.userId,
+  );
+  if (current && !current.role) return false;
+  const hadRole = !!current || isLegacyUsername(member.username);
+  await getStaffStore().upsert({
+    ...(current || member),
+    role: "",
+    updatedBy,
+    updatedAt: nowIso(),
+  });
+  __cache = null;
+  return hadRole;
+}
@@ -8,10 +8,20 @@
  * Env:
  * - BOT_TOKEN (required)
  * - ADMIN_CHAT_ID (optional)
+ * - TELEGRAM_WEBHOOK_SECRET (optional, recommended): secret_token Telegram echoes in
+ *   the X-Telegram-Bot-Api-Secret-Token header of every webhook request
+ * - TELEGRAM_API_URL (optional): Bot API server, default https://api.telegram.org
+ *   (a local Bot API server, or the fake one in test/support/telegram.ts)
  */
 
 const BOT_TOKEN = (globalThis as any)?.process?.env?.BOT_TOKEN || "";
 const ADMIN_CHAT_ID = (globalThis as any)?.process?.env?.ADMIN_CHAT_ID || "";
+const WEBHOOK_SECRET =
+  (globalThis as any)?.process?.env?.TELEGRAM_WEBHOOK_SECRET || "";
+const API_URL = (
+  (globalThis as any)?.process?.env?.TELEGRAM_API_URL ||
+  "https://api.telegram.org"
+).replace(/\/+$/, "");
 
 /**
  * Default timeout for Telegram API calls (in ms).
@@ -23,7 +33,7 @@ const TELEGRAM_BASE = () => {
   if (!BOT_TOKEN) {
     throw new Error("BOT_TOKEN is not set");
   }
-  return `https://api.telegram.org/bot${BOT_TOKEN}`;
+  return `${API_URL}/bot${BOT_TOKEN}`;
 };
 
 export type TgInlineKeyboardButton = {
@@ -109,6 +119,13 @@ async function callTelegram<T = any>(
   }
 }
 
+/**
+ * Escape text for a parse_mode HTML message: names and notes from the sheet or from users.
+ */
+export function escapeHtml(s: string): string {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
 /**
  * Send a message to a chat.
  */
@@ -291,3 +308,119 @@ export function tgDeleteMyCommands(
     options?.timeoutMs,
   );
 }
+
+/**
+ * Point Telegram at the webhook URL.
+ * secret_token is sent back in the X-Telegram-Bot-Api-Secret-Token header (1-256 chars of A-Z, a-z, 0-9, _ and -).
+ * See: https://core.telegram.org/bots/api#setwebhook
+ */
+export function tgSetWebhook(
+  url: string,
+  params?: {
+    secret_token?: string;
+    allowed_updates?: string[];
+    drop_pending_updates?: boolean;
+    max_connections?: number;
+  },
+  options?: { timeoutMs?: number },
+) {
+  return callTelegram<boolean>(
+    "setWebhook",
+    {
+      url,
+      secret_token: params?.secret_token,
+      allowed_updates: params?.allowed_updates,
+      drop_pending_updates: params?.drop_pending_updates,
+      max_connections: params?.max_connections,
+    },
+    options?.timeoutMs,
+  );
+}
+
+export type TgWebhookInfo = {
+  url: string;
+  has_custom_certificate: boolean;
+  pending_update_count: number;
+  ip_address?: string;
+  last_error_date?: number;
+  last_error_message?: string;
+  max_connections?: number;
+  allowed_updates?: string[];
+};
+
+/**
+ * Current webhook status (URL, pending updates, last delivery error).
+ * See: https://core.telegram.org/bots/api#getwebhookinfo
+ */
+export function tgGetWebhookInfo(options?: { timeoutMs?: number }) {
+  return callTelegram<TgWebhookInfo>("getWebhookInfo", {}, options?.timeoutMs);
+}
+
+/**
+ * Long-poll for updates (only works while no webhook is set).
+ * Passing offset = last update_id + 1 confirms everything before it.
+ * See: https://core.telegram.org/bots/api#getupdates
+ */
+export function tgGetUpdates<T = any>(
+  params: {
+    offset?: number;
+    limit?: number;
+    timeout?: number; // seconds Telegram holds the request open when there's nothing new
+    allowed_updates?: string[];
+  },
+  options?: { timeoutMs?: number },
+) {
+  return callTelegram<T[]>(
+    "getUpdates",
+    {
+      offset: params.offset,
+      limit: params.limit,
+      timeout: params.timeout,
+      allowed_updates: params.allowed_updates,
+    },
+    options?.timeoutMs ?? TELEGRAM_TIMEOUT_MS + (params.timeout || 0) * 1000,
+  );
+}
+
+/**
+ * The secret passed to setWebhook, or "" if TELEGRAM_WEBHOOK_SECRET is not set.
+ */
+export function webhookSecret(): string {
+  return WEBHOOK_SECRET;
+}
+
+/**
+ * Check the X-Telegram-Bot-Api-Secret-Token header of a webhook request.
+ * Always true when no secret is configured (so existing deployments keep working).
+ */
+export function verifyWebhookSecret(headers: Record<string, unknown>): boolean {
+  if (!WEBHOOK_SECRET) return true;
+  const raw = headers?.["x-telegram-bot-api-secret-token"];
+  const got = String((Array.isArray(raw) ? raw[0] : raw) ?? "");
+  return secretsMatch(got, WEBHOOK_SECRET);
+}
+
+/**
+ * Check an "Authorization: Bearer <secret>" header (/api/setup, /api/cron/daily).
+ * Always false when no secret is configured.
+ */
+export function verifyBearerToken(
+  headers: Record<string, unknown>,
+  secret: string,
+): boolean {
+  if (!secret) return false;
+  const raw = headers?.authorization;
+  const got = String((Array.isArray(raw) ? raw[0] : raw) ?? "");
+  return secretsMatch(got, `Bearer ${secret}`);
+}
+
+/**
+ * Constant-time compare so a secret can't be guessed byte by byte.
+ */
+function secretsMatch(got: string, expected: string): boolean {
+  let diff = got.length ^ expected.length;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= (got.charCodeAt(i) || 0) ^ expected.charCodeAt(i);
+  }
+  return diff === 0;
+}
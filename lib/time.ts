@@ -0,0 +1,114 @@
+/**
+ * Shop-local time helpers, in the shop's IANA timezone (see lib/config.ts).
+ *
+ * Exports:
+ * - nowIso(now?): "YYYY-MM-DDTHH:mm:ss+08:00" timestamp for order rows (the offset in effect at that instant)
+ * - localDateKey(date): "YYYY-MM-DD" of the shop-local calendar day
+ * - startOfLocalDay(ymd): UTC instant of 00:00 shop time on that day
+ * - addDays(ymd, n): calendar arithmetic on "YYYY-MM-DD" keys
+ * - localWeekday(ymd): 0 = Sunday ... 6 = Saturday
+ * - isDateKey(s): true for a valid "YYYY-MM-DD"
+ *
+ * Notes:
+ * - Offsets come from Intl, so zones with daylight saving time get the right
+ *   offset on either side of a change; a day can be 23 or 25 hours long.
+ */
+
+import { getConfig } from "./config";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const pad2 = (n: number) => String(n).padStart(2, "0");
+
+let __fmt: { timezone: string; dtf: Intl.DateTimeFormat } | null = null;
+
+/**
+ * Wall-clock fields of an instant in the shop's timezone.
+ */
+function localParts(date: Date): {
+  y: number;
+  m: number;
+  d: number;
+  hh: number;
+  mm: number;
+  ss: number;
+} {
+  const { timezone } = getConfig();
+  if (!__fmt || __fmt.timezone !== timezone) {
+    __fmt = {
+      timezone,
+      dtf: new Intl.DateTimeFormat("en-US", {
+        timeZone: timezone,
+        hourCycle: "h23",
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        hour: "2-digit",
+        minute: "2-digit",
+        second: "2-digit",
+      }),
+    };
+  }
+  const p: Record<string, number> = {};
+  for (const part of __fmt.dtf.formatToParts(date)) {
+    if (part.type !== "literal") p[part.type] = Number(part.value);
+  }
+  return {
+    y: p.year,
+    m: p.month,
+    d: p.day,
+    hh: p.hour,
+    mm: p.minute,
+    ss: p.second,
+  };
+}
+
+/**
+ * Minutes the shop's timezone is ahead of UTC at that instant.
+ */
+function offsetMinutes(date: Date): number {
+  const t = localParts(date);
+  const asUtc = Date.UTC(t.y, t.m - 1, t.d, t.hh, t.mm, t.ss);
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
+
+/**
+ * Return shop-local time in ISO-like format without milliseconds.
+ */
+export function nowIso(now: Date = new Date()): string {
+  const t = localParts(now);
+  const off = offsetMinutes(now);
+  const sign = off < 0 ? "-" : "+";
+  const abs = Math.abs(off);
+  return `${t.y}-${pad2(t.m)}-${pad2(t.d)}T${pad2(t.hh)}:${pad2(t.mm)}:${pad2(t.ss)}${sign}${pad2(Math.floor(abs / 60))}:${pad2(abs % 60)}`;
+}
+
+export function localDateKey(date: Date): string {
+  return nowIso(date).slice(0, 10);
+}
+
+export function isDateKey(s: string): boolean {
+  const m = /^(\d{4})-(\d{2})-(\d{2})$/.exec(s);
+  if (!m) return false;
+  const d = new Date(Date.UTC(+m[1], +m[2] - 1, +m[3]));
+  return d.getUTCMonth() === +m[2] - 1 && d.getUTCDate() === +m[3];
+}
+
+export function startOfLocalDay(ymd: string): Date {
+  const [y, m, d] = ymd.split("-").map(Number);
+  const midnight = Date.UTC(y, m - 1, d);
+  // Guess with the offset at UTC midnight, then correct with the offset at the guess
+  const guess = midnight - offsetMinutes(new Date(midnight)) * 60000;
+  return new Date(midnight - offsetMinutes(new Date(guess)) * 60000);
+}
+
+export function addDays(ymd: string, n: number): string {
+  const [y, m, d] = ymd.split("-").map(Number);
+  const t = new Date(Date.UTC(y, m - 1, d) + n * DAY_MS);
+  return `${t.getUTCFullYear()}-${pad2(t.getUTCMonth() + 1)}-${pad2(t.getUTCDate())}`;
+}
+
+export function localWeekday(ymd: string): number {
+  const [y, m, d] = ymd.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d)).getUTCDay();
+}
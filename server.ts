@@ -0,0 +1,231 @@
+/**
+ * Standalone entry point for self-hosting (VPS, Raspberry Pi, local development).
+ * - polling (default): long-polls getUpdates and feeds each update to the webhook's dispatcher
+ * - webhook: serves /api/bot, /api/setup and /api/cron/daily over plain node:http
+ *
+ * Run: npm run build && npm start [-- polling|webhook]
+ *
+ * Environment variables (plus everything api/bot.ts reads):
+ * - BOT_MODE (optional): "polling" or "webhook"; a command-line argument wins
+ * - PORT (optional): HTTP port, default 3000 in webhook mode; in polling mode the routes
+ *   are only served when PORT is set (e.g. for /api/cron/daily from a crontab)
+ * - HOST (optional, default 0.0.0.0)
+ * - POLL_TIMEOUT_SECONDS (optional, default 25): how long each getUpdates call waits
+ *
+ * Notes:
+ * - Polling refuses to start while a webhook is set: Telegram only allows one or the other.
+ * - SIGINT / SIGTERM: stop taking new work, finish the update in hand, confirm the
+ *   handled updates with Telegram (getUpdates offset), close the HTTP server and the
+ *   Redis connection.
+ *   Updates fetched but not handled yet are left for the next run. A second signal exits at once.
+ */
+
+import { createServer, type Server } from "http";
+import botHandler, { processUpdate, type TgUpdate } from "./api/bot";
+import setupHandler from "./api/setup";
+import dailyHandler from "./api/cron/daily";
+import {
+  tgGetUpdates,
+  tgGetWebhookInfo,
+  tgSetMyCommands,
+} from "./lib/telegram";
+import { ALLOWED_UPDATES, DEFAULT_COMMANDS } from "./lib/commands";
+import { closeSessionStore } from "./lib/session";
+
+const env = (globalThis as any)?.process?.env || {};
+const HOST = env.HOST || "0.0.0.0";
+const POLL_TIMEOUT_S = Math.min(
+  50,
+  Math.max(0, Math.floor(Number(env.POLL_TIMEOUT_SECONDS ?? 25) || 0)),
+);
+const SHUTDOWN_TIMEOUT_MS = 10_000;
+const MAX_BACKOFF_MS = 30_000;
+
+type Mode = "polling" | "webhook";
+
+const ROUTES: Record<string, (req: any, res: any) => Promise<void>> = {
+  "/api/bot": botHandler,
+  "/api/setup": setupHandler,
+  "/api/cron/daily": dailyHandler,
+};
+
+/* =============================
+   HTTP server
+============================= */
+
+function startHttpServer(port: number): Promise<Server> {
+  const server = createServer((req, res) => {
+    const path = new URL(req.url || "/", "http://localhost").pathname;
+    const route = ROUTES[path.replace(/\/+$/, "")];
+    if (!route) {
+      res.statusCode = 404;
+      res.setHeader("Content-Type", "application/json; charset=utf-8");
+      res.end(JSON.stringify({ ok: false, error: "not found" }));
+      return;
+    }
+    route(req, res).catch((err: any) => {
+      console.error(`${path} error: ${err?.message || String(err)}`);
+      if (!res.headersSent) res.statusCode = 500;
+      res.end();
+    });
+  });
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, HOST, () => {
+      console.log(
+        `listening on http://${HOST}:${port} (${Object.keys(ROUTES).join(", ")})`,
+      );
+      resolve(server);
+    });
+  });
+}
+
+function closeHttpServer(server: Server): Promise<void> {
+  return new Promise((resolve) => {
+    server.close(() => resolve());
+    // Keep-alive sockets with no request in flight would hold close() open
+    server.closeIdleConnections();
+  });
+}
+
+/* =============================
+   getUpdates loop
+============================= */
+
+type Poller = {
+  offset: number | undefined; // last handled update_id + 1
+  stopping: boolean;
+  batch: Promise<void>; // the updates being handled right now
+  wake: () => void; // cut a retry delay short
+};
+
+const sleep = (ms: number, poller: Poller) =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    poller.wake = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+  });
+
+async function handleBatch(poller: Poller, updates: TgUpdate[]): Promise<void> {
+  for (const update of updates) {
+    // Left unconfirmed, so Telegram sends them again next run
+    if (poller.stopping) return;
+    await processUpdate(update);
+    poller.offset = update.update_id + 1;
+  }
+}
+
+async function pollLoop(poller: Poller): Promise<void> {
+  let backoff = 0;
+  while (!poller.stopping) {
+    let updates: TgUpdate[];
+    try {
+      updates = await tgGetUpdates<TgUpdate>({
+        offset: poller.offset,
+        timeout: POLL_TIMEOUT_S,
+        allowed_updates: ALLOWED_UPDATES,
+      });
+      backoff = 0;
+    } catch (err: any) {
+      if (poller.stopping) break;
+      backoff = Math.min(backoff ? backoff * 2 : 1000, MAX_BACKOFF_MS);
+      console.error(
+        `getUpdates error: ${err?.message || String(err)}; retrying in ${backoff / 1000}s`,
+      );
+      await sleep(backoff, poller);
+      continue;
+    }
+    poller.batch = handleBatch(poller, updates);
+    await poller.batch;
+  }
+}
+
+/**
+ * Confirm every handled update, so a restart doesn't handle them again.
+ * This also ends the pending long poll (Telegram answers it with 409 Conflict).
+ */
+async function commitOffset(poller: Poller): Promise<void> {
+  if (poller.offset === undefined) return;
+  try {
+    await tgGetUpdates({ offset: poller.offset, limit: 1, timeout: 0 });
+    console.log(`confirmed updates before ${poller.offset}`);
+  } catch (err: any) {
+    console.error(`offset commit failed: ${err?.message || String(err)}`);
+  }
+}
+
+async function startPolling(): Promise<Poller> {
+  const info = await tgGetWebhookInfo();
+  if (info.url) {
+    throw new Error(
+      `a webhook is set (${info.url}); remove it with the Bot API's deleteWebhook method before polling`,
+    );
+  }
+  try {
+    await tgSetMyCommands(DEFAULT_COMMANDS);
+  } catch (err: any) {
+    console.error(`setMyCommands error: ${err?.message || String(err)}`);
+  }
+  const poller: Poller = {
+    offset: undefined,
+    stopping: false,
+    batch: Promise.resolve(),
+    wake: () => {},
+  };
+  pollLoop(poller).catch((err: any) => {
+    console.error(`polling stopped: ${err?.message || String(err)}`);
+    process.exit(1);
+  });
+  console.log(`polling for updates (timeout ${POLL_TIMEOUT_S}s)`);
+  return poller;
+}
+
+/* =============================
+   Main
+============================= */
+
+async function main(): Promise<void> {
+  const arg = process.argv[2] || env.BOT_MODE || "polling";
+  if (arg !== "polling" && arg !== "webhook") {
+    throw new Error(`unknown mode "${arg}" (use polling or webhook)`);
+  }
+  const mode: Mode = arg;
+  const port = Number(env.PORT || (mode === "webhook" ? 3000 : 0));
+
+  const poller = mode === "polling" ? await startPolling() : null;
+  const server = port ? await startHttpServer(port) : null;
+
+  let shuttingDown = false;
+  const shutdown = async (signal: string) => {
+    if (shuttingDown) {
+      console.log(`${signal} again: exiting now`);
+      process.exit(1);
+    }
+    shuttingDown = true;
+    console.log(`${signal}: shutting down`);
+    setTimeout(() => {
+      console.error("shutdown timed out");
+      process.exit(1);
+    }, SHUTDOWN_TIMEOUT_MS).unref();
+
+    const closing = server ? closeHttpServer(server) : Promise.resolve();
+    if (poller) {
+      poller.stopping = true;
+      poller.wake();
+      await poller.batch;
+      await commitOffset(poller);
+    }
+    await closing;
+    closeSessionStore();
+    process.exit(0);
+  };
+  process.on("SIGINT", () => void shutdown("SIGINT"));
+  process.on("SIGTERM", () => void shutdown("SIGTERM"));
+}
+
+main().catch((err: any) => {
+  console.error(`server: ${err?.message || String(err)}`);
+  process.exit(1);
+});
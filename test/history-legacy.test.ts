@@ -0,0 +1,62 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createHarness } from "./support/harness";
+import { ORDER_HEADERS } from "../lib/sheets";
+
+// Saved before OrderId and CallbackId existed: /history can only point at their row number
+const legacyRow = (timestamp: string, drink: string, qty: number) => {
+  const cells: Record<string, string | number> = {
+    Timestamp: timestamp,
+    ChatId: 1,
+    UserId: 1,
+    Username: "@user1",
+    Drink: drink,
+    Price: 3,
+    Qty: qty,
+    Total: 3 * qty,
+  };
+  return ORDER_HEADERS.map((h) => cells[h] ?? "");
+};
+
+test("voiding a row-numbered /history entry refuses a row that has changed", async () => {
+  const older = legacyRow("2026-10-18T09:00:00+08:00", "Americano", 1);
+  const newer = legacyRow("2026-10-18T10:00:00+08:00", "Latte", 2);
+  const h = await createHarness({
+    owners: [1],
+    tabs: { Orders: [[...ORDER_HEADERS], older, newer] },
+  });
+  try {
+    await h.send(1, "/history");
+    const list = h.telegram.lastBotMessage(1)!;
+    const voidLatte: string =
+      list.reply_markup.inline_keyboard[0][0].callback_data;
+    assert.match(voidLatte, /^V\|r:3:/);
+
+    // Someone sorts the sheet: row 3 is now the Americano
+    h.sheets.setTab("Orders", [[...ORDER_HEADERS], newer, older]);
+    const calls = await h.tap(1, list, voidLatte);
+    const answer = calls.find((c) => c.method === "answerCallbackQuery");
+    assert.equal(answer?.payload.text, "Order not found");
+    assert.deepEqual(
+      h.sheets.records("Orders").map((r) => r.Status),
+      ["", ""],
+    );
+
+    await h.send(1, "/history");
+    const fresh = h.telegram.lastBotMessage(1)!;
+    await h.tap(
+      1,
+      fresh,
+      fresh.reply_markup.inline_keyboard[1][0].callback_data,
+    );
+    assert.deepEqual(
+      h.sheets.records("Orders").map((r) => [r.Drink, r.Status]),
+      [
+        ["Latte", "Voided"],
+        ["Americano", ""],
+      ],
+    );
+  } finally {
+    await h.close();
+  }
+});
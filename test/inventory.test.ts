@@ -0,0 +1,46 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  usageFor,
+  stockLineFromCart,
+  stockLineFromOrder,
+  type RecipeRow,
+} from "../lib/inventory";
+import type { OrderRow } from "../lib/sheets";
+
+const recipes: RecipeRow[] = [
+  { item: "*", modifier: "", ingredient: "Cups", amount: 1 },
+  { item: "latte", modifier: "", ingredient: "Milk", amount: 200 },
+];
+
+const latte = (options: string[], qty = 2) =>
+  stockLineFromCart({
+    drinkId: "latte",
+    name: "Latte",
+    mods: options.map((option) => ({
+      group: "Cup",
+      option,
+      delta: 0,
+      isDefault: false,
+    })),
+    qty,
+  });
+
+test("a BYOC line uses no cup without a Recipes row saying so", () => {
+  assert.deepEqual(
+    [...usageFor([latte(["Shop cup"])], recipes)],
+    [
+      ["cups", 2],
+      ["milk", 400],
+    ],
+  );
+  assert.deepEqual([...usageFor([latte(["BYOC"])], recipes)], [["milk", 400]]);
+});
+
+test('rows saved with a legacy "(byoc)" label count as BYOC', () => {
+  const row = { drink: "Latte (byoc)", drinkId: "", modifiers: "", qty: 1 };
+  assert.deepEqual(
+    [...usageFor([stockLineFromOrder(row as OrderRow)], recipes)],
+    [["milk", 200]],
+  );
+});
@@ -0,0 +1,30 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createHarness } from "./support/harness";
+import { buildCart } from "./support/flows";
+
+test("/log, a drink and Confirm append a Queued row", async () => {
+  const h = await createHarness({ owners: [1] });
+  try {
+    const cart = await buildCart(h, 1, "/log", {
+      category: "Coffee",
+      id: "americano",
+      qty: 2,
+    });
+    assert.match(cart.text, /Americano — \$3\.00 × 2 = \$6\.00/);
+
+    await h.tap(1, cart, "Y|");
+    const saved = h.telegram.lastBotMessage(1)!;
+    assert.match(saved.text, /^Saved order \S+:/);
+
+    const rows = h.sheets.records("Orders");
+    assert.equal(rows.length, 1);
+    assert.equal(rows[0].Drink, "Americano");
+    assert.equal(rows[0].Qty, 2);
+    assert.equal(rows[0].Total, 6);
+    assert.equal(rows[0].Status, "Queued");
+    assert.equal(rows[0].UserId, 1);
+  } finally {
+    await h.close();
+  }
+});
@@ -0,0 +1,45 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createHarness } from "./support/harness";
+import { MODIFIERS_TAB } from "./support/fixtures";
+
+test("a modifier button from before the Modifiers tab changed asks again", async () => {
+  const h = await createHarness({ owners: [1] });
+  try {
+    await h.send(1, "/log");
+    const coffee = h.telegram
+      .lastBotMessage(1)!
+      .reply_markup.inline_keyboard.flat()
+      .find((b: { text: string }) => b.text.startsWith("Coffee ("));
+    await h.tap(1, h.telegram.lastBotMessage(1)!, coffee.callback_data);
+    await h.tap(1, h.telegram.lastBotMessage(1)!, "D|latte");
+    const picker = h.telegram.lastBotMessage(1)!;
+    assert.equal(picker.text, "Which milk?");
+    const oat: string = picker.reply_markup.inline_keyboard[0][1].callback_data;
+
+    // A Shot group for Latte (by its Menu Id) now comes before Milk
+    const [header, ...rows] = MODIFIERS_TAB;
+    h.sheets.setTab("Modifiers", [
+      header,
+      ["Shot", "Single", 0, "latte", "How many shots?"],
+      ["Shot", "Double", 0.8, "latte", ""],
+      ...rows,
+    ]);
+    await h.send(1, "/reloadmenu");
+
+    const calls = await h.tap(1, picker, oat);
+    const answer = calls.find((c) => c.method === "answerCallbackQuery");
+    assert.equal(
+      answer?.payload.text,
+      "The options for this drink changed, please choose again",
+    );
+    const again = h.telegram.message(1, picker.message_id)!;
+    assert.equal(again.text, "How many shots?");
+    assert.deepEqual(
+      again.reply_markup.inline_keyboard.flat().map((b: any) => b.text),
+      ["Single", "Double (+$0.80)"],
+    );
+  } finally {
+    await h.close();
+  }
+});
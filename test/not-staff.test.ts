@@ -0,0 +1,36 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createHarness } from "./support/harness";
+import { buildCart } from "./support/flows";
+
+const STAFF_CHAT = -100;
+
+test("someone who isn't staff can't log, undo or accept orders", async () => {
+  const h = await createHarness({ owners: [1], staffChatId: STAFF_CHAT });
+  try {
+    for (const command of ["/log", "/undo"]) {
+      await h.send(2, command);
+      assert.equal(
+        h.telegram.lastBotMessage(2)!.text,
+        "Not authorized. Use /menu to view our drinks menu!",
+      );
+    }
+
+    // Anyone in the staff chat sees the Accept button, but only staff can use it
+    const cart = await buildCart(h, 5, "/order", {
+      category: "Coffee",
+      id: "latte",
+      qty: 1,
+    });
+    await h.tap(5, cart, "Y|");
+    const ticket = h.telegram.lastBotMessage(STAFF_CHAT)!;
+    const ticketId = /Order request (\S+)/.exec(ticket.text)![1];
+    const calls = await h.tap(2, ticket, `T|a|${ticketId}`);
+    const answer = calls.find((c) => c.method === "answerCallbackQuery");
+    assert.equal(answer?.payload.text, "Not authorized");
+    assert.equal(h.telegram.lastBotMessage(STAFF_CHAT)!.text, ticket.text);
+    assert.equal(h.sheets.records("Orders").length, 0);
+  } finally {
+    await h.close();
+  }
+});
@@ -0,0 +1,52 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createHarness } from "./support/harness";
+import { buildCart } from "./support/flows";
+
+const STAFF_CHAT = -100;
+
+test("a customer's /order becomes an Orders row when staff accept it", async () => {
+  const h = await createHarness({ owners: [1], staffChatId: STAFF_CHAT });
+  try {
+    const cart = await buildCart(h, 5, "/order", {
+      category: "Coffee",
+      id: "latte",
+      qty: 1,
+    });
+    await h.tap(5, cart, "Y|");
+    const ticket = h.telegram.lastBotMessage(STAFF_CHAT)!;
+    const ticketId = /Order request (\S+)/.exec(ticket.text)![1];
+    assert.match(ticket.text, /Customer: @user5 \(User 5\)/);
+    assert.equal(h.sheets.records("Orders").length, 0);
+
+    await h.tap(1, ticket, `T|a|${ticketId}`);
+    assert.match(
+      h.telegram.lastBotMessage(STAFF_CHAT)!.text,
+      new RegExp(`^✅ Order ${ticketId} accepted by @user1`),
+    );
+    assert.equal(
+      h.telegram.lastBotMessage(5)!.text,
+      `✅ Your order ${ticketId} was accepted — we're on it!`,
+    );
+    const rows = h.sheets.records("Orders");
+    assert.equal(rows.length, 1);
+    assert.equal(rows[0].OrderId, ticketId);
+    assert.equal(rows[0].Drink, "Latte");
+    assert.equal(rows[0].Status, "Queued");
+
+    // A late tap on the old Accept button leaves the status buttons alone
+    const statusKeyboard = h.telegram.lastBotMessage(STAFF_CHAT)!.reply_markup;
+    const calls = await h.tap(1, ticket, `T|a|${ticketId}`);
+    assert.deepEqual(
+      calls.map((c) => c.method),
+      ["answerCallbackQuery"],
+    );
+    assert.deepEqual(
+      h.telegram.lastBotMessage(STAFF_CHAT)!.reply_markup,
+      statusKeyboard,
+    );
+    assert.equal(h.sheets.records("Orders").length, 1);
+  } finally {
+    await h.close();
+  }
+});
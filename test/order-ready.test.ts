@@ -0,0 +1,37 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createHarness } from "./support/harness";
+import { buildCart } from "./support/flows";
+
+const STAFF_CHAT = -100;
+
+test("a customer without a username still hears their order is ready", async () => {
+  const h = await createHarness({ owners: [1], staffChatId: STAFF_CHAT });
+  try {
+    const customer = { id: 6, first_name: "Six" };
+    const cart = await buildCart(h, customer, "/order", {
+      category: "Coffee",
+      id: "americano",
+      qty: 1,
+    });
+    await h.tap(customer, cart, "Y|");
+    const ticket = h.telegram.lastBotMessage(STAFF_CHAT)!;
+    const ticketId = /Order request (\S+)/.exec(ticket.text)![1];
+    await h.tap(1, ticket, `T|a|${ticketId}`);
+
+    const calls = await h.tap(
+      1,
+      h.telegram.lastBotMessage(STAFF_CHAT)!,
+      `S|${ticketId}|r`,
+    );
+    const sent = calls.filter((c) => c.method === "sendMessage");
+    assert.equal(sent.length, 1);
+    assert.equal(sent[0].payload.chat_id, 6);
+    assert.equal(
+      sent[0].payload.text,
+      `🔔 Your order ${ticketId} is ready for pickup!`,
+    );
+  } finally {
+    await h.close();
+  }
+});
@@ -0,0 +1,40 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createHarness } from "./support/harness";
+import { buildCart } from "./support/flows";
+
+const STAFF_CHAT = -100;
+
+test("a rejected /order saves nothing and tells the customer", async () => {
+  const h = await createHarness({ owners: [1], staffChatId: STAFF_CHAT });
+  try {
+    const cart = await buildCart(h, 5, "/order", {
+      category: "Coffee",
+      id: "latte",
+      qty: 1,
+    });
+    await h.tap(5, cart, "Y|");
+    const ticket = h.telegram.lastBotMessage(STAFF_CHAT)!;
+    const ticketId = /Order request (\S+)/.exec(ticket.text)![1];
+
+    await h.tap(1, ticket, `T|r|${ticketId}`);
+    assert.match(
+      h.telegram.lastBotMessage(STAFF_CHAT)!.text,
+      new RegExp(`^✖ Order ${ticketId} rejected by @user1`),
+    );
+    assert.deepEqual(h.telegram.lastBotMessage(STAFF_CHAT)!.reply_markup, {
+      inline_keyboard: [],
+    });
+    assert.equal(
+      h.telegram.lastBotMessage(5)!.text,
+      `Sorry, we couldn't take your order ${ticketId} right now.`,
+    );
+    assert.equal(h.sheets.records("Orders").length, 0);
+
+    // A second tap on the same ticket changes nothing
+    await h.tap(1, ticket, `T|a|${ticketId}`);
+    assert.equal(h.sheets.records("Orders").length, 0);
+  } finally {
+    await h.close();
+  }
+});
@@ -0,0 +1,26 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createHarness } from "./support/harness";
+
+test("/paid takes an amount typed with the shop's currency sign", async () => {
+  const h = await createHarness({
+    owners: [1],
+    env: { SHOP_CURRENCY: "EUR" },
+  });
+  try {
+    await h.send(1, "/paid @user5 €4.50 cash");
+    const [row] = h.sheets.records("Payments");
+    assert.equal(row.Customer, "@user5");
+    assert.equal(row.Amount, 4.5);
+    assert.equal(row.Note, "cash");
+
+    await h.send(1, "/paid @user5 €");
+    assert.equal(
+      h.telegram.lastBotMessage(1)!.text,
+      "Usage: /paid @user amount [note]",
+    );
+    assert.equal(h.sheets.records("Payments").length, 1);
+  } finally {
+    await h.close();
+  }
+});
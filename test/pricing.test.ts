@@ -0,0 +1,67 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { toCents, sumMoney, priceLine, priceCart } from "../lib/pricing";
+import type { CartLine } from "../lib/cart";
+
+const oat = { group: "Milk", option: "Oat milk", delta: 0.5, isDefault: false };
+const byoc = { group: "Cup", option: "BYOC", delta: -0.5, isDefault: false };
+const shopCup = { group: "Cup", option: "Shop cup", delta: 0, isDefault: true };
+
+const line = (over: Partial<CartLine> = {}): CartLine => ({
+  drinkId: "latte",
+  name: "Latte",
+  base: 4.5,
+  mods: [],
+  qty: 1,
+  ...over,
+});
+
+test("toCents rounds the decimal value, not its float approximation", () => {
+  assert.equal(toCents(3.5), 350);
+  assert.equal(toCents(1.005), 101);
+  assert.equal(toCents(0.1 + 0.2), 30);
+  assert.equal(toCents(-2.675), -268);
+  assert.equal(toCents(NaN), 0);
+  assert.equal(sumMoney([0.1, 0.2, 4.35]), 4.65);
+});
+
+test("priceLine itemizes price-changing options and multiplies by qty", () => {
+  const p = priceLine(line({ mods: [oat, byoc, shopCup], qty: 3 }));
+  assert.deepEqual(p.modifiers, [
+    { option: "Oat milk", delta: 50 },
+    { option: "BYOC", delta: -50 },
+  ]);
+  assert.equal(p.unit, 450);
+  assert.equal(p.gross, 1350);
+  assert.equal(p.total, 1350);
+});
+
+test("a reward line is free and a discount never exceeds its line", () => {
+  assert.equal(priceLine(line({ mods: [oat], reward: true })).total, 0);
+  const p = priceLine(line(), 10_000);
+  assert.equal(p.discount, 450);
+  assert.equal(p.total, 0);
+});
+
+test("priceCart totals the lines and keeps only a promotion that took something off", () => {
+  const lines = [line({ qty: 2 }), line({ drinkId: "mocha", base: 5 })];
+  const promo = {
+    name: "Happy hour",
+    code: "",
+    discountCents: [180, 0],
+    amountCents: 180,
+  };
+  const p = priceCart(lines, promo);
+  assert.equal(p.subtotal, 1400);
+  assert.equal(p.discount, 180);
+  assert.equal(p.total, 1220);
+  assert.deepEqual(
+    p.lines.map((l) => l.total),
+    [720, 500],
+  );
+  assert.equal(p.promotion, promo);
+
+  const none = priceCart(lines, { ...promo, discountCents: [0, 0] });
+  assert.equal(none.total, 1400);
+  assert.equal(none.promotion, null);
+});
@@ -0,0 +1,48 @@
+import { test, mock } from "node:test";
+import assert from "node:assert/strict";
+import { createHarness } from "./support/harness";
+import { buildCart } from "./support/flows";
+
+test("a happy hour that ends between review and Confirm re-prompts instead of saving", async () => {
+  mock.timers.enable({
+    apis: ["Date"],
+    now: new Date("2026-10-19T16:59:30+08:00"),
+  });
+  const h = await createHarness({
+    owners: [1],
+    env: { SHOP_TIMEZONE: "Asia/Singapore" },
+    tabs: {
+      Promotions: [
+        ["Name", "Type", "Value", "Drinks", "Code", "Days", "From", "To"],
+        ["Happy hour", "percent", 20, "*", "", "", "15:00", "17:00"],
+      ],
+    },
+  });
+  try {
+    const cart = await buildCart(h, 1, "/log", {
+      category: "Coffee",
+      id: "latte",
+      qty: 1,
+    });
+    assert.match(cart.text, /Happy hour/);
+    assert.match(cart.text, /\$3\.20/);
+
+    // Past 17:00, and past the promotions cache
+    mock.timers.tick(61 * 1000);
+    const calls = await h.tap(1, cart, "Y|");
+    const answer = calls.find((c) => c.method === "answerCallbackQuery");
+    assert.equal(answer?.payload.text, "Prices changed, please check");
+    assert.equal(h.sheets.records("Orders").length, 0);
+    const redrawn = h.telegram.message(1, cart.message_id)!;
+    assert.match(redrawn.text, /^⚠ Prices changed/);
+    assert.doesNotMatch(redrawn.text, /Happy hour/);
+
+    await h.tap(1, redrawn, "Y|");
+    const [row] = h.sheets.records("Orders");
+    assert.equal(row.Total, 4);
+    assert.equal(row.Promotion, "");
+  } finally {
+    await h.close();
+    mock.timers.reset();
+  }
+});
@@ -0,0 +1,134 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  applyPromotions,
+  findPromoCode,
+  type Promotion,
+} from "../lib/promotions";
+import type { CartLine } from "../lib/cart";
+
+// Read on first use, so this holds for every test below (UTC+8, no DST)
+process.env.SHOP_TIMEZONE = "Asia/Singapore";
+
+const promo = (over: Partial<Promotion>): Promotion => ({
+  name: "Promo",
+  type: "percent",
+  value: 20,
+  drinks: ["*"],
+  code: "",
+  days: [],
+  from: -1,
+  to: -1,
+  ...over,
+});
+
+const latte: CartLine = {
+  drinkId: "latte",
+  name: "Latte",
+  base: 4.5,
+  mods: [],
+  qty: 1,
+};
+
+// 2026-10-19 is a Monday
+const at = (hhmm: string, ymd = "2026-10-19") =>
+  new Date(`${ymd}T${hhmm}:00+08:00`);
+
+test("a happy hour runs from its start up to (not including) its end, shop time", () => {
+  const happy = [promo({ name: "Happy hour", from: 15 * 60, to: 17 * 60 })];
+  assert.equal(applyPromotions([latte], happy, { at: at("14:59") }), null);
+  assert.equal(
+    applyPromotions([latte], happy, { at: at("15:00") })?.amountCents,
+    90,
+  );
+  assert.equal(applyPromotions([latte], happy, { at: at("17:00") }), null);
+});
+
+test("a window past midnight covers both sides of it", () => {
+  const late = [promo({ from: 22 * 60, to: 2 * 60 })];
+  assert.ok(applyPromotions([latte], late, { at: at("23:30") }));
+  assert.ok(applyPromotions([latte], late, { at: at("01:59") }));
+  assert.equal(applyPromotions([latte], late, { at: at("02:00") }), null);
+});
+
+test("Days limits a promotion to those weekdays", () => {
+  const weekdays = [promo({ days: [1, 2, 3, 4, 5] })];
+  assert.ok(applyPromotions([latte], weekdays, { at: at("10:00") }));
+  assert.equal(
+    applyPromotions([latte], weekdays, { at: at("10:00", "2026-10-17") }),
+    null,
+  );
+  // 23:30 Sunday in Singapore is still Sunday, though it's Sunday 15:30 UTC
+  assert.equal(
+    applyPromotions([latte], weekdays, { at: at("23:30", "2026-10-18") }),
+    null,
+  );
+});
+
+test("drinks match by id, name or category", () => {
+  for (const drinks of [["latte"], ["coffee"]]) {
+    assert.ok(
+      applyPromotions([latte], [promo({ drinks })], { at: at("10:00") }),
+    );
+  }
+  assert.equal(
+    applyPromotions([latte], [promo({ drinks: ["tea"] })], { at: at("10:00") }),
+    null,
+  );
+});
+
+test("a code is matched however it's typed, and only while its promotion runs", () => {
+  const coded = promo({
+    name: "Spring",
+    code: "SPRING10",
+    value: 10,
+    from: 9 * 60,
+    to: 12 * 60,
+  });
+  assert.equal(findPromoCode(" spring 10 ", [coded], at("10:00")), coded);
+  assert.equal(findPromoCode("SPRING10", [coded], at("12:00")), null);
+  assert.equal(findPromoCode("SUMMER", [coded], at("10:00")), null);
+  assert.equal(findPromoCode("", [coded], at("10:00")), null);
+});
+
+test("an entered code wins over a bigger automatic promotion, unless it saves nothing", () => {
+  const auto = promo({ name: "Auto", value: 50 });
+  const coded = promo({ name: "Spring", code: "SPRING10", value: 10 });
+  const got = applyPromotions([latte], [auto, coded], {
+    code: "spring10",
+    at: at("10:00"),
+  });
+  assert.equal(got?.name, "Spring");
+  assert.equal(got?.amountCents, 45);
+
+  const teaOnly = { ...coded, drinks: ["tea"] };
+  assert.equal(
+    applyPromotions([latte], [auto, teaOnly], {
+      code: "SPRING10",
+      at: at("10:00"),
+    })?.name,
+    "Auto",
+  );
+  // Without the code, a coded promotion never applies
+  assert.equal(applyPromotions([latte], [coded], { at: at("10:00") }), null);
+});
+
+test("buy N get one frees the cheapest cup in every N+1", () => {
+  const buy2 = [promo({ type: "buy", value: 2 })];
+  const mocha: CartLine = {
+    ...latte,
+    drinkId: "mocha",
+    name: "Mocha",
+    base: 5,
+  };
+  const got = applyPromotions(
+    [
+      { ...latte, qty: 2 },
+      { ...mocha, qty: 4 },
+    ],
+    buy2,
+    { at: at("10:00") },
+  );
+  // Cups by price: 5 5 5 5 4.5 4.5 — the 3rd and 6th are free
+  assert.deepEqual(got?.discountCents, [450, 500]);
+});
@@ -0,0 +1,31 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createHarness } from "./support/harness";
+
+test("/revoke removes an APPROVED_USERNAMES barista", async () => {
+  const h = await createHarness({
+    owners: [1],
+    env: { APPROVED_USERNAMES: "@user5" },
+  });
+  try {
+    await h.send(5, "/log");
+    assert.equal(h.telegram.lastBotMessage(5)!.text, "Choose a drink:");
+
+    await h.send(1, "/revoke @user5");
+    assert.equal(
+      h.telegram.lastBotMessage(1)!.text,
+      "@user5 no longer has a staff role.",
+    );
+    const [row] = h.sheets.records("Staff");
+    assert.equal(row.UserId, 5);
+    assert.equal(row.Role, "");
+
+    await h.send(5, "/log");
+    assert.equal(
+      h.telegram.lastBotMessage(5)!.text,
+      "Not authorized. Use /menu to view our drinks menu!",
+    );
+  } finally {
+    await h.close();
+  }
+});
@@ -0,0 +1,24 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { verifyBearerToken } from "../lib/telegram";
+
+test("a Bearer token must match the secret exactly", () => {
+  const headers = (authorization?: string | string[]) => ({ authorization });
+  assert.equal(verifyBearerToken(headers("Bearer s3cret"), "s3cret"), true);
+  assert.equal(verifyBearerToken(headers(["Bearer s3cret"]), "s3cret"), true);
+  for (const wrong of [
+    "Bearer s3cre",
+    "Bearer s3cret!",
+    "bearer s3cret",
+    "s3cret",
+    "",
+  ]) {
+    assert.equal(verifyBearerToken(headers(wrong), "s3cret"), false, wrong);
+  }
+  assert.equal(verifyBearerToken(headers(), "s3cret"), false);
+});
+
+test("with no secret configured, nothing is accepted", () => {
+  assert.equal(verifyBearerToken({ authorization: "Bearer " }, ""), false);
+  assert.equal(verifyBearerToken({}, ""), false);
+});
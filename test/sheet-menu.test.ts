@@ -0,0 +1,37 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createHarness } from "./support/harness";
+import { buildCart } from "./support/flows";
+
+test("a Menu tab drink with Modifiers options is priced and saved with them", async () => {
+  const h = await createHarness({ owners: [1] });
+  try {
+    await h.send(1, "/log");
+    const categories = h.telegram
+      .lastBotMessage(1)!
+      .reply_markup.inline_keyboard.flat()
+      .map((b: { text: string }) => b.text);
+    // Mocha is sold out, so Coffee counts two drinks
+    assert.deepEqual(categories, ["Coffee (2)", "Tea (1)"]);
+
+    const cart = await buildCart(h, 1, "/log", {
+      category: "Tea",
+      id: "hojicha",
+      options: ["Oat milk", "Large"],
+      qty: 1,
+    });
+    assert.match(
+      cart.text,
+      /Hojicha Latte \(Oat milk, Large\) — \$4\.50 \+ \$0\.50 \+ \$1\.00 = \$6\.00/,
+    );
+
+    await h.tap(1, cart, "Y|");
+    const [row] = h.sheets.records("Orders");
+    assert.equal(row.Drink, "Hojicha Latte (Oat milk, Large)");
+    assert.equal(row.DrinkId, "hojicha");
+    assert.equal(row.Price, 6);
+    assert.equal(row.Modifiers, "Milk: Oat milk; Cup: Shop cup; Size: Large");
+  } finally {
+    await h.close();
+  }
+});
@@ -0,0 +1,31 @@
+/**
+ * The Menu and Modifiers tabs every harness starts with.
+ *
+ * Exports:
+ * - MENU_TAB: Coffee, Tea and a sold-out drink, with Category zh names
+ * - MODIFIERS_TAB: Milk (drinks with OatMilk = yes), Cup (every drink) and Size (Hojicha Latte only)
+ *
+ * Notes:
+ * - Americano and Latte keep the built-in ids and prices, so flows read the same
+ *   either way; Hojicha Latte exists only here.
+ */
+
+type Cell = string | number | boolean;
+
+export const MENU_TAB: Cell[][] = [
+  ["Name", "Price", "OatMilk", "Available", "Category", "Id", "Category zh"],
+  ["Americano", 3, "no", "yes", "Coffee", "americano", "咖啡"],
+  ["Latte", 4, "yes", "yes", "Coffee", "latte", ""],
+  ["Mocha", 4.5, "yes", "no", "Coffee", "mocha", ""],
+  ["Hojicha Latte", 4.5, "yes", "yes", "Tea", "hojicha", "茶"],
+];
+
+export const MODIFIERS_TAB: Cell[][] = [
+  ["Group", "Option", "Price", "Drinks", "Prompt"],
+  ["Milk", "Dairy milk", 0, "oat", "Which milk?"],
+  ["Milk", "Oat milk", 0.5, "oat", ""],
+  ["Cup", "Shop cup", 0, "*", "Bring your own cup?"],
+  ["Cup", "BYOC", -0.5, "*", ""],
+  ["Size", "Regular", 0, "hojicha", "Which size?"],
+  ["Size", "Large", 1, "hojicha", ""],
+];
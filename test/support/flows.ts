@@ -0,0 +1,44 @@
+/**
+ * Taps through the ordering keyboards the way a user would, for the scenarios in test/.
+ *
+ * Exports:
+ * - buildCart(h, from, command, drink): /log or /order, then a drink, its options and a
+ *   quantity; resolves to the cart message
+ *
+ * Notes:
+ * - e.g. { category: "Tea", id: "hojicha", options: ["Oat milk"], qty: 1 }: the category
+ *   button is found by its label, and each modifier prompt takes the listed option
+ *   (by label) or else the group's default.
+ */
+
+import type { Harness } from "./harness";
+import type { FakeMessage } from "./telegram";
+import type { TgUser } from "../../api/bot";
+
+export async function buildCart(
+  h: Harness,
+  from: number | TgUser,
+  command: "/log" | "/order",
+  drink: { category: string; id: string; options?: string[]; qty: number },
+): Promise<FakeMessage> {
+  const chat = typeof from === "number" ? from : from.id;
+  const last = () => h.telegram.lastBotMessage(chat)!;
+  await h.send(from, command);
+  const category = last()
+    .reply_markup.inline_keyboard.flat()
+    .find((b: { text: string }) => b.text.startsWith(`${drink.category} (`));
+  await h.tap(from, last(), category.callback_data);
+  await h.tap(from, last(), `D|${drink.id}`);
+  // One prompt per modifier group
+  for (;;) {
+    const buttons: Array<{ text: string; callback_data: string }> =
+      last().reply_markup?.inline_keyboard?.flat() || [];
+    if (!buttons[0]?.callback_data.startsWith("M|")) break;
+    const chosen =
+      buttons.find((b) => drink.options?.some((o) => b.text.startsWith(o))) ||
+      buttons[0];
+    await h.tap(from, last(), chosen.callback_data);
+  }
+  await h.reply(from, last(), String(drink.qty));
+  return last();
+}
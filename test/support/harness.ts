@@ -0,0 +1,193 @@
+/**
+ * End-to-end harness: drives the webhook handler with synthetic updates against
+ * the fake Telegram server and the in-memory spreadsheet.
+ *
+ * Exports:
+ * - Harness type
+ * - createHarness(options?): start the fakes, set the env and load api/bot.ts
+ *
+ * Usage (node:test, one file per scenario so each gets a fresh process):
+ *   const h = await createHarness({ owners: [1] });
+ *   await h.send(1, "/log");
+ *   const menu = h.telegram.lastBotMessage(1)!;
+ *   await h.tap(1, menu, "D|latte");
+ *   ...
+ *   assert.equal(h.sheets.records("Orders")[0].Drink, "Latte");
+ *   await h.close();
+ *
+ * Notes:
+ * - lib/ modules read their env when first loaded, so create the harness before
+ *   importing anything from api/ or lib/.
+ * - The spreadsheet starts with the Menu and Modifiers tabs in fixtures.ts; pass
+ *   tabs: { Menu: [...] } to replace one, or { Menu: undefined } to use the built-in menu.
+ * - Module-level caches (menu, settings, staff roles, seen update ids) and the memory
+ *   SessionStore (carts, prompts) live for the whole process; h.reset() clears only the fakes.
+ * - Buttons and replies go to the chat the message is in: a chat passed to send() is
+ *   remembered (e.g. a staff group), anything else is the user's private chat.
+ * - Every update waits for the handler to finish, so the calls it made are all recorded.
+ */
+
+import { FakeTelegram, type FakeMessage, type TgCall } from "./telegram";
+import { installMemorySheets, type MemorySpreadsheet } from "./sheets";
+import { MENU_TAB, MODIFIERS_TAB } from "./fixtures";
+import type { TgUpdate, TgUser, TgChat } from "../../api/bot";
+
+export type Harness = {
+  telegram: FakeTelegram;
+  sheets: MemorySpreadsheet;
+  /** A user's message; chat defaults to their private chat. Resolves to the calls it caused. */
+  send(from: number | TgUser, text: string, chat?: TgChat): Promise<TgCall[]>;
+  /** A user's reply to a message (e.g. the quantity prompt). */
+  reply(
+    from: number | TgUser,
+    to: FakeMessage,
+    text: string,
+  ): Promise<TgCall[]>;
+  /** A user tapping an inline button with this callback_data on one of the bot's messages. */
+  tap(from: number | TgUser, on: FakeMessage, data: string): Promise<TgCall[]>;
+  /** Any update; update_id is filled in when missing. Resolves to the HTTP status and calls. */
+  update(
+    update: Omit<TgUpdate, "update_id"> & { update_id?: number },
+  ): Promise<{ status: number; calls: TgCall[] }>;
+  /** Forget the recorded calls and messages, and empty every tab below its header row. */
+  reset(): void;
+  close(): Promise<void>;
+};
+
+export async function createHarness(
+  options: {
+    owners?: number[];
+    staffChatId?: number;
+    adminChatId?: number;
+    /** Extra env, e.g. { STAMP_CARD_SIZE: "5", SHOP_LANGUAGE: "zh" } */
+    env?: Record<string, string>;
+    /** Initial tabs, e.g. { Menu: [["Name", "Price"], ["Latte", 4.5]] }, on top of fixtures.ts */
+    tabs?: Record<string, Array<Array<string | number | boolean>> | undefined>;
+  } = {},
+): Promise<Harness> {
+  const telegram = new FakeTelegram();
+  const base = await telegram.start();
+  const secret = "harness-secret";
+
+  Object.assign(process.env, {
+    BOT_TOKEN: "123456:TEST",
+    TELEGRAM_API_URL: base,
+    TELEGRAM_WEBHOOK_SECRET: secret,
+    SHEET_ID: "memory",
+    ORDER_STORE: "sheets",
+    SESSION_STORE: "memory",
+    OWNER_IDS: (options.owners || []).join(","),
+    STAFF_CHAT_ID: options.staffChatId ? String(options.staffChatId) : "",
+    ADMIN_CHAT_ID: options.adminChatId ? String(options.adminChatId) : "",
+    ...options.env,
+  });
+  const initialTabs: Record<
+    string,
+    Array<Array<string | number | boolean>>
+  > = {};
+  for (const [title, rows] of Object.entries({
+    Menu: MENU_TAB,
+    Modifiers: MODIFIERS_TAB,
+    ...options.tabs,
+  })) {
+    if (rows) initialTabs[title] = rows;
+  }
+  const sheets = installMemorySheets(initialTabs);
+
+  // Loaded only now, so every module sees the env above
+  const handler: (req: any, res: any) => Promise<void> =
+    require("../../api/bot").default;
+
+  let updateId = 0;
+  const userOf = (from: number | TgUser): TgUser =>
+    typeof from === "number"
+      ? { id: from, first_name: `User ${from}`, username: `user${from}` }
+      : from;
+  const chats = new Map<number, TgChat>();
+  const chatOf = (id: number): TgChat =>
+    chats.get(id) || { id, type: id < 0 ? "group" : "private" };
+
+  const update: Harness["update"] = async (u) => {
+    const before = telegram.calls.length;
+    const req = {
+      method: "POST",
+      headers: { "x-telegram-bot-api-secret-token": secret },
+      body: { ...u, update_id: u.update_id ?? ++updateId },
+    };
+    const res = {
+      statusCode: 200,
+      setHeader() {},
+      end() {},
+    };
+    await handler(req, res);
+    return { status: res.statusCode, calls: telegram.calls.slice(before) };
+  };
+
+  const message = async (
+    from: number | TgUser,
+    text: string,
+    chatInfo: TgChat,
+    replyTo?: FakeMessage,
+  ) => {
+    const user = userOf(from);
+    const sent = telegram.addUserMessage(chatInfo.id, text);
+    const { calls } = await update({
+      message: {
+        message_id: sent.message_id,
+        date: Math.floor(Date.now() / 1000),
+        chat: chatInfo,
+        from: user,
+        text,
+        ...(replyTo
+          ? {
+              reply_to_message: {
+                message_id: replyTo.message_id,
+                date: Math.floor(Date.now() / 1000),
+                chat: chatInfo,
+                text: replyTo.text,
+              },
+            }
+          : {}),
+      },
+    });
+    return calls;
+  };
+
+  return {
+    telegram,
+    sheets,
+    send: (from, text, chat) => {
+      if (chat) chats.set(chat.id, chat);
+      return message(from, text, chat || chatOf(userOf(from).id));
+    },
+    reply: (from, to, text) => message(from, text, chatOf(to.chat_id), to),
+    tap: async (from, on, data) => {
+      const { calls } = await update({
+        callback_query: {
+          id: `cb${updateId + 1}`,
+          from: userOf(from),
+          message: {
+            message_id: on.message_id,
+            date: Math.floor(Date.now() / 1000),
+            chat: chatOf(on.chat_id),
+            text: on.text,
+          },
+          data,
+        },
+      });
+      return calls;
+    },
+    update,
+    reset() {
+      telegram.reset();
+      // Tabs stay in place: the stores remember they already created them
+      for (const title of sheets.titles()) {
+        sheets.setTab(
+          title,
+          initialTabs[title] || sheets.tab(title)!.slice(0, 1),
+        );
+      }
+    },
+    close: () => telegram.stop(),
+  };
+}
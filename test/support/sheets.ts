@@ -0,0 +1,282 @@
+/**
+ * In-memory spreadsheet standing in for the Google Sheets API in tests.
+ *
+ * Exports:
+ * - MemorySpreadsheet: tabs of cell values with the subset of the Sheets v4 client the bot uses
+ * - installMemorySheets(tabs?): a MemorySpreadsheet that getSheetsAuth() returns from now on
+ *
+ * Notes:
+ * - Covers spreadsheets.get / batchUpdate (addSheet, deleteDimension) and
+ *   values.get / batchGet / update / batchUpdate / append, with A1 ranges like
+ *   "Orders!A2:W", "Menu!A:Z", "Staff!1:1" and "Ingredients!C5".
+ * - Reads come back the way the real API formats them: numbers as strings, booleans as
+ *   "TRUE"/"FALSE", trailing blank cells and rows trimmed, no `values` for an empty range.
+ * - A range on a missing tab fails with "Unable to parse range: ...", like the real API.
+ * - The spreadsheet id is ignored: every SHEET_ID reads the same tabs.
+ */
+
+import { setSheetsAuth, type SheetsAuth } from "../../lib/sheets";
+
+type Cell = string | number | boolean;
+
+type A1Range = {
+  title: string;
+  startRow: number; // 1-based
+  endRow: number; // inclusive; Infinity = to the last row
+  startCol: number; // 1-based
+  endCol: number; // inclusive; Infinity = to the last column
+};
+
+function columnIndex(letters: string): number {
+  let n = 0;
+  for (const ch of letters) n = n * 26 + (ch.charCodeAt(0) - 64);
+  return n;
+}
+
+function columnName(n: number): string {
+  let out = "";
+  for (let x = n; x > 0; x = Math.floor((x - 1) / 26)) {
+    out = String.fromCharCode(65 + ((x - 1) % 26)) + out;
+  }
+  return out;
+}
+
+function formatCell(v: Cell | null | undefined): string {
+  if (v == null) return "";
+  if (typeof v === "boolean") return v ? "TRUE" : "FALSE";
+  return String(v);
+}
+
+function rangeError(range: string): Error {
+  const err: any = new Error(`Unable to parse range: ${range}`);
+  err.code = 400;
+  return err;
+}
+
+export class MemorySpreadsheet {
+  private tabs = new Map<string, { sheetId: number; rows: Cell[][] }>();
+  private nextSheetId = 1;
+  /** The client getSheetsAuth() hands out; see installMemorySheets(). */
+  readonly auth: SheetsAuth;
+
+  constructor(tabs: Record<string, Cell[][]> = {}) {
+    for (const [title, rows] of Object.entries(tabs)) this.setTab(title, rows);
+    this.auth = { jwt: null, sheets: this.client() };
+  }
+
+  /** Create or replace a tab (row 1 is usually the header). */
+  setTab(title: string, rows: Cell[][] = []): void {
+    const sheetId = this.tabs.get(title)?.sheetId ?? this.nextSheetId++;
+    this.tabs.set(title, { sheetId, rows: rows.map((r) => [...r]) });
+  }
+
+  deleteTab(title: string): void {
+    this.tabs.delete(title);
+  }
+
+  titles(): string[] {
+    return [...this.tabs.keys()];
+  }
+
+  /** A tab's cells as written (not formatted), or undefined if there's no such tab. */
+  tab(title: string): Cell[][] | undefined {
+    return this.tabs.get(title)?.rows.map((r) => [...r]);
+  }
+
+  /**
+   * A tab's data rows as objects keyed by the header row, e.g. the Orders rows
+   * as { Drink: "Latte", Qty: 2, ... }.
+   */
+  records(title: string): Array<Record<string, Cell>> {
+    const [header = [], ...rows] = this.tab(title) || [];
+    return rows.map((row) => {
+      const out: Record<string, Cell> = {};
+      header.forEach((h, i) => {
+        if (h !== "") out[String(h)] = row[i] ?? "";
+      });
+      return out;
+    });
+  }
+
+  /** The formatted values in an A1 range, as values.get returns them. */
+  read(range: string): string[][] {
+    const r = this.parse(range);
+    const rows = this.rowsOf(r.title);
+    const last = Math.min(r.endRow, rows.length);
+    const out: string[][] = [];
+    for (let row = r.startRow; row <= last; row++) {
+      const cells = rows[row - 1] || [];
+      const end = Math.min(r.endCol, cells.length);
+      const values: string[] = [];
+      for (let col = r.startCol; col <= end; col++) {
+        values.push(formatCell(cells[col - 1]));
+      }
+      while (values.length && values[values.length - 1] === "") values.pop();
+      out.push(values);
+    }
+    while (out.length && !out[out.length - 1].length) out.pop();
+    return out;
+  }
+
+  /** Write values starting at the range's top-left cell; null leaves a cell unchanged. */
+  write(range: string, values: Array<Array<Cell | null>>): string {
+    const r = this.parse(range);
+    const rows = this.rowsOf(r.title);
+    values.forEach((vals, i) => {
+      const row = (rows[r.startRow - 1 + i] ||= []);
+      vals.forEach((v, j) => {
+        if (v === null || v === undefined) return;
+        const col = r.startCol - 1 + j;
+        while (row.length < col) row.push("");
+        row[col] = v;
+      });
+    });
+    for (let i = 0; i < rows.length; i++) rows[i] ||= [];
+    const lastRow = r.startRow + Math.max(values.length, 1) - 1;
+    const width = Math.max(1, ...values.map((v) => v.length));
+    return `${r.title}!${columnName(r.startCol)}${r.startRow}:${columnName(r.startCol + width - 1)}${lastRow}`;
+  }
+
+  /** Add rows after the tab's last non-blank row, as values.append does. */
+  append(range: string, values: Cell[][]): string {
+    const r = this.parse(range);
+    const rows = this.rowsOf(r.title);
+    let last = rows.length;
+    while (last > 0 && !rows[last - 1].some((c) => formatCell(c) !== "")) {
+      last--;
+    }
+    return this.write(
+      `${r.title}!${columnName(r.startCol)}${last + 1}`,
+      values,
+    );
+  }
+
+  private rowsOf(title: string): Cell[][] {
+    const tab = this.tabs.get(title);
+    if (!tab) throw rangeError(title);
+    return tab.rows;
+  }
+
+  private parse(range: string): A1Range {
+    const bang = range.lastIndexOf("!");
+    let title = bang >= 0 ? range.slice(0, bang) : range;
+    const ref = bang >= 0 ? range.slice(bang + 1) : "";
+    if (/^'.*'$/.test(title)) title = title.slice(1, -1).replace(/''/g, "'");
+    if (!this.tabs.has(title)) throw rangeError(range);
+    if (!ref) {
+      return {
+        title,
+        startRow: 1,
+        endRow: Infinity,
+        startCol: 1,
+        endCol: Infinity,
+      };
+    }
+    const m = /^([A-Z]*)(\d*)(?::([A-Z]*)(\d*))?$/i.exec(ref);
+    if (!m || (!m[1] && !m[2])) throw rangeError(range);
+    const single = m[3] === undefined && m[4] === undefined;
+    const startCol = m[1] ? columnIndex(m[1].toUpperCase()) : 1;
+    const startRow = m[2] ? Number(m[2]) : 1;
+    const endCol = single
+      ? m[1]
+        ? startCol
+        : Infinity
+      : m[3]
+        ? columnIndex(m[3].toUpperCase())
+        : Infinity;
+    const endRow = single
+      ? m[2]
+        ? startRow
+        : Infinity
+      : m[4]
+        ? Number(m[4])
+        : Infinity;
+    return { title, startRow, endRow, startCol, endCol };
+  }
+
+  private batchRequest(req: any): any {
+    if (req.addSheet) {
+      const title = req.addSheet.properties?.title;
+      if (this.tabs.has(title)) {
+        const err: any = new Error(
+          `Invalid requests[0].addSheet: A sheet with the name "${title}" already exists.`,
+        );
+        err.code = 400;
+        throw err;
+      }
+      this.setTab(title);
+      return { addSheet: { properties: { title } } };
+    }
+    if (req.deleteDimension) {
+      const { sheetId, dimension, startIndex, endIndex } =
+        req.deleteDimension.range;
+      const tab = [...this.tabs.values()].find((t) => t.sheetId === sheetId);
+      if (!tab) throw new Error(`No grid with id: ${sheetId}`);
+      if (dimension === "ROWS")
+        tab.rows.splice(startIndex, endIndex - startIndex);
+      return {};
+    }
+    throw new Error(
+      `MemorySpreadsheet: unsupported request ${Object.keys(req).join(", ")}`,
+    );
+  }
+
+  private client(): any {
+    const data = (d: any) => Promise.resolve({ status: 200, data: d });
+    const valueRange = (range: string) => {
+      const values = this.read(range);
+      return values.length ? { range, values } : { range };
+    };
+    return {
+      spreadsheets: {
+        get: async (_params: any) =>
+          data({
+            sheets: [...this.tabs.entries()].map(([title, t]) => ({
+              properties: { title, sheetId: t.sheetId },
+            })),
+          }),
+        batchUpdate: async (params: any) =>
+          data({
+            replies: (params.requestBody?.requests || []).map((req: any) =>
+              this.batchRequest(req),
+            ),
+          }),
+        values: {
+          get: async (params: any) => data(valueRange(params.range)),
+          batchGet: async (params: any) =>
+            data({ valueRanges: (params.ranges || []).map(valueRange) }),
+          update: async (params: any) =>
+            data({
+              updatedRange: this.write(
+                params.range,
+                params.requestBody?.values || [],
+              ),
+            }),
+          batchUpdate: async (params: any) =>
+            data({
+              responses: (params.requestBody?.data || []).map((d: any) => ({
+                updatedRange: this.write(d.range, d.values || []),
+              })),
+            }),
+          append: async (params: any) => {
+            const values = params.requestBody?.values || [];
+            return data({
+              updates: {
+                updatedRange: this.append(params.range, values),
+                updatedRows: values.length,
+              },
+            });
+          },
+        },
+      },
+    };
+  }
+}
+
+export function installMemorySheets(
+  tabs: Record<string, Cell[][]> = {},
+): MemorySpreadsheet {
+  const sheet = new MemorySpreadsheet(tabs);
+  setSheetsAuth(sheet.auth);
+  return sheet;
+}
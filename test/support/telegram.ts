@@ -0,0 +1,286 @@
+/**
+ * Fake Telegram Bot API server for tests: point TELEGRAM_API_URL at it.
+ *
+ * Exports:
+ * - TgCall type: one recorded Bot API request
+ * - FakeMessage type: a message as it stands after any edits
+ * - FakeTelegram: node:http server that records every call and keeps each chat's messages
+ *
+ * Notes:
+ * - Answers sendMessage, editMessageText, editMessageReplyMarkup, deleteMessage and
+ *   answerCallbackQuery the way Telegram does, including "message is not modified" and
+ *   "message to edit not found" errors; any other method just returns true.
+ * - Message ids count up per chat and are shared with the messages a test sends in
+ *   (nextMessageId), like in a real chat.
+ * - failNext(method, description) makes the next call to a method fail, to test error paths.
+ * - pushUpdate(update) queues an update for getUpdates, which long-polls and confirms by
+ *   offset like Telegram; a newer getUpdates ends a waiting one with 409 Conflict.
+ */
+
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+
+export type TgCall = {
+  method: string;
+  payload: Record<string, any>;
+};
+
+export type FakeMessage = {
+  message_id: number;
+  chat_id: number;
+  from_bot: boolean;
+  text: string;
+  reply_markup?: any;
+  deleted?: boolean;
+};
+
+type Failure = { description: string; error_code: number };
+
+type Poll = {
+  reply: (body: any) => void;
+  timer: ReturnType<typeof setTimeout>;
+};
+
+export class FakeTelegram {
+  /** Every Bot API request, oldest first. */
+  readonly calls: TgCall[] = [];
+  private chats = new Map<number, FakeMessage[]>();
+  private failures = new Map<string, Failure[]>();
+  private server: Server | null = null;
+  private base = "";
+  private updates: Array<Record<string, any>> = [];
+  private lastUpdateId = 0;
+  private poll: Poll | null = null;
+
+  /** Start listening on a free local port; resolves to the URL for TELEGRAM_API_URL. */
+  async start(): Promise<string> {
+    if (this.server) return this.base;
+    const server = createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on("data", (c: Buffer) => chunks.push(c));
+      req.on("end", () => {
+        const method = String(req.url || "")
+          .split("?")[0]
+          .split("/")
+          .pop() as string;
+        let payload: Record<string, any> = {};
+        try {
+          payload = JSON.parse(Buffer.concat(chunks).toString("utf8") || "{}");
+        } catch {}
+        const send = (reply: any) => {
+          res.statusCode = reply.ok ? 200 : reply.error_code;
+          res.setHeader("Content-Type", "application/json");
+          res.end(JSON.stringify(reply));
+        };
+        if (method === "getUpdates") this.getUpdates(payload, send);
+        else send(this.handle(method, payload));
+      });
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(0, "127.0.0.1", () => resolve());
+    });
+    this.server = server;
+    this.base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    return this.base;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (!server) return;
+    this.endPoll({ ok: true, result: [] });
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  /** Forget recorded calls, messages and pending failures. */
+  reset(): void {
+    this.calls.length = 0;
+    this.chats.clear();
+    this.failures.clear();
+    this.updates.length = 0;
+  }
+
+  /** Queue an update for getUpdates; update_id is filled in when missing. */
+  pushUpdate(update: Record<string, any>): number {
+    const updateId = update.update_id ?? this.lastUpdateId + 1;
+    this.lastUpdateId = Math.max(this.lastUpdateId, updateId);
+    this.updates.push({ ...update, update_id: updateId });
+    this.endPoll();
+    return updateId;
+  }
+
+  /** Updates not yet confirmed by a getUpdates offset. */
+  pendingUpdates(): Array<Record<string, any>> {
+    return [...this.updates];
+  }
+
+  failNext(method: string, description = "Bad Request", errorCode = 400): void {
+    const list = this.failures.get(method) || [];
+    list.push({ description, error_code: errorCode });
+    this.failures.set(method, list);
+  }
+
+  /** Reserve the next message id in a chat, e.g. for a message a user sends. */
+  nextMessageId(chatId: number): number {
+    return this.messagesIn(chatId).length + 1;
+  }
+
+  /** Record a message a user sent, so the bot can edit around it or delete it. */
+  addUserMessage(chatId: number, text: string): FakeMessage {
+    const msg: FakeMessage = {
+      message_id: this.nextMessageId(chatId),
+      chat_id: chatId,
+      from_bot: false,
+      text,
+    };
+    this.messagesIn(chatId).push(msg);
+    return msg;
+  }
+
+  /** A message as it currently stands, or undefined. */
+  message(chatId: number, messageId: number): FakeMessage | undefined {
+    return this.messagesIn(chatId).find((m) => m.message_id === messageId);
+  }
+
+  /** The bot's messages in a chat that haven't been deleted, oldest first. */
+  botMessages(chatId: number): FakeMessage[] {
+    return this.messagesIn(chatId).filter((m) => m.from_bot && !m.deleted);
+  }
+
+  /** The bot's latest message in a chat. */
+  lastBotMessage(chatId: number): FakeMessage | undefined {
+    return this.botMessages(chatId).pop();
+  }
+
+  /** Recorded calls to one method, optionally only those for one chat. */
+  callsTo(method: string, chatId?: number): TgCall[] {
+    return this.calls.filter(
+      (c) =>
+        c.method === method &&
+        (chatId == null || Number(c.payload.chat_id) === chatId),
+    );
+  }
+
+  private getUpdates(
+    payload: Record<string, any>,
+    send: (reply: any) => void,
+  ): void {
+    this.calls.push({ method: "getUpdates", payload });
+    this.endPoll({
+      ok: false,
+      error_code: 409,
+      description:
+        "Conflict: terminated by other getUpdates request; make sure that only one bot instance is running",
+    });
+    const failure = this.failures.get("getUpdates")?.shift();
+    if (failure) return send({ ok: false, ...failure });
+
+    const offset = Number(payload.offset) || 0;
+    if (offset)
+      this.updates = this.updates.filter((u) => u.update_id >= offset);
+    const limit = Number(payload.limit) || 100;
+    const ready = () => ({ ok: true, result: this.updates.slice(0, limit) });
+    const timeoutS = Number(payload.timeout) || 0;
+    if (this.updates.length || timeoutS <= 0) return send(ready());
+
+    const poll: Poll = {
+      reply: (body) => send(body ?? ready()),
+      timer: setTimeout(() => this.endPoll(), timeoutS * 1000),
+    };
+    this.poll = poll;
+  }
+
+  /** Answer the waiting getUpdates call: with an error, or with the queue. */
+  private endPoll(body?: any): void {
+    const poll = this.poll;
+    if (!poll) return;
+    this.poll = null;
+    clearTimeout(poll.timer);
+    poll.reply(body);
+  }
+
+  private messagesIn(chatId: number): FakeMessage[] {
+    let list = this.chats.get(chatId);
+    if (!list) this.chats.set(chatId, (list = []));
+    return list;
+  }
+
+  private handle(method: string, payload: Record<string, any>): any {
+    this.calls.push({ method, payload });
+    const failure = this.failures.get(method)?.shift();
+    if (failure) return { ok: false, ...failure };
+
+    const chatId = Number(payload.chat_id);
+    const notFound = (what: string) => ({
+      ok: false,
+      error_code: 400,
+      description: `Bad Request: message to ${what} not found`,
+    });
+    const result = (msg: FakeMessage) => ({
+      ok: true,
+      result: {
+        message_id: msg.message_id,
+        date: Math.floor(Date.now() / 1000),
+        chat: { id: msg.chat_id },
+        text: msg.text,
+        ...(msg.reply_markup ? { reply_markup: msg.reply_markup } : {}),
+      },
+    });
+
+    switch (method) {
+      case "sendMessage": {
+        const msg: FakeMessage = {
+          message_id: this.nextMessageId(chatId),
+          chat_id: chatId,
+          from_bot: true,
+          text: String(payload.text ?? ""),
+          reply_markup: payload.reply_markup,
+        };
+        this.messagesIn(chatId).push(msg);
+        return result(msg);
+      }
+      case "editMessageText":
+      case "editMessageReplyMarkup": {
+        const msg = this.message(chatId, Number(payload.message_id));
+        if (!msg || msg.deleted || !msg.from_bot) return notFound("edit");
+        const text =
+          method === "editMessageText" ? String(payload.text ?? "") : msg.text;
+        const markup = payload.reply_markup;
+        if (
+          text === msg.text &&
+          JSON.stringify(markup ?? null) ===
+            JSON.stringify(msg.reply_markup ?? null)
+        ) {
+          return {
+            ok: false,
+            error_code: 400,
+            description:
+              "Bad Request: message is not modified: specified new message content and reply markup are exactly the same as a current content and reply markup of the message",
+          };
+        }
+        msg.text = text;
+        msg.reply_markup = markup;
+        return result(msg);
+      }
+      case "deleteMessage": {
+        const msg = this.message(chatId, Number(payload.message_id));
+        if (!msg || msg.deleted) return notFound("delete");
+        msg.deleted = true;
+        return { ok: true, result: true };
+      }
+      case "getWebhookInfo":
+        return {
+          ok: true,
+          result: {
+            url: "",
+            has_custom_certificate: false,
+            pending_update_count: 0,
+          },
+        };
+      default:
+        return { ok: true, result: true };
+    }
+  }
+}
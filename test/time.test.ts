@@ -0,0 +1,65 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  nowIso,
+  localDateKey,
+  startOfLocalDay,
+  addDays,
+  localWeekday,
+  isDateKey,
+} from "../lib/time";
+
+// Read on first use: a zone with daylight saving time for every test below
+process.env.SHOP_TIMEZONE = "America/New_York";
+
+const hours = (ymd: string) =>
+  (startOfLocalDay(addDays(ymd, 1)).getTime() -
+    startOfLocalDay(ymd).getTime()) /
+  3_600_000;
+
+test("timestamps carry the offset in effect at that instant", () => {
+  assert.equal(
+    nowIso(new Date("2026-03-08T06:59:59Z")),
+    "2026-03-08T01:59:59-05:00",
+  );
+  assert.equal(
+    nowIso(new Date("2026-03-08T07:00:00Z")),
+    "2026-03-08T03:00:00-04:00",
+  );
+  assert.equal(
+    nowIso(new Date("2026-11-01T05:30:00Z")),
+    "2026-11-01T01:30:00-04:00",
+  );
+  assert.equal(
+    nowIso(new Date("2026-11-01T06:30:00Z")),
+    "2026-11-01T01:30:00-05:00",
+  );
+});
+
+test("local days start at local midnight and are 23 or 25 hours around a change", () => {
+  assert.equal(
+    startOfLocalDay("2026-03-08").toISOString(),
+    "2026-03-08T05:00:00.000Z",
+  );
+  assert.equal(
+    startOfLocalDay("2026-03-09").toISOString(),
+    "2026-03-09T04:00:00.000Z",
+  );
+  assert.equal(hours("2026-03-08"), 23);
+  assert.equal(hours("2026-11-01"), 25);
+  assert.equal(hours("2026-10-19"), 24);
+});
+
+test("the local date is the shop's, not UTC's", () => {
+  assert.equal(localDateKey(new Date("2026-10-20T03:59:59Z")), "2026-10-19");
+  assert.equal(localDateKey(new Date("2026-10-20T04:00:00Z")), "2026-10-20");
+});
+
+test("date keys: arithmetic, weekdays and validation", () => {
+  assert.equal(addDays("2026-02-28", 1), "2026-03-01");
+  assert.equal(addDays("2026-03-08", -8), "2026-02-28");
+  assert.equal(localWeekday("2026-10-19"), 1);
+  assert.equal(isDateKey("2026-02-29"), false);
+  assert.equal(isDateKey("2028-02-29"), true);
+  assert.equal(isDateKey("2026-2-3"), false);
+});
@@ -0,0 +1,32 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createHarness } from "./support/harness";
+import { buildCart } from "./support/flows";
+
+test("/undo voids the last confirmed order and keeps its row", async () => {
+  const h = await createHarness({ owners: [1] });
+  try {
+    const cart = await buildCart(h, 1, "/log", {
+      category: "Coffee",
+      id: "americano",
+      qty: 2,
+    });
+    await h.tap(1, cart, "Y|");
+    const orderId = h.sheets.records("Orders")[0].OrderId;
+
+    await h.send(1, "/undo");
+    assert.equal(
+      h.telegram.lastBotMessage(1)!.text,
+      `Voided order ${orderId}: Americano × 2.`,
+    );
+    const rows = h.sheets.records("Orders");
+    assert.equal(rows.length, 1);
+    assert.equal(rows[0].Status, "Voided");
+    assert.equal(rows[0].VoidedBy, "@user1");
+
+    await h.send(1, "/undo");
+    assert.doesNotMatch(h.telegram.lastBotMessage(1)!.text, /^Voided order/);
+  } finally {
+    await h.close();
+  }
+});
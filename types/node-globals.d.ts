@@ -26,11 +26,13 @@ declare global {
     info: (...args: any[]) => void;
   };
 
-  // Very small Buffer surface for request body handling
-  // We only call Buffer.from, Buffer.concat, and Buffer.isBuffer
+  // Very small Buffer surface for request body handling and the Redis client
+  // We only call Buffer.from, Buffer.alloc, Buffer.concat, Buffer.byteLength and Buffer.isBuffer
   var Buffer: {
     from(input: any, encoding?: string): any;
+    alloc(size: number): any;
     concat(list: any[]): any;
+    byteLength(input: string, encoding?: string): number;
     isBuffer(obj: any): boolean;
   };
 